@@ -0,0 +1,130 @@
+import { ElastickbirdModel } from "../../lib/model/ElastickbirdModel";
+import { ElasticsearchClient } from "../../lib/client/ElasticsearchClient";
+
+const ELASTICSEARCH_URL = (global as any).ELASTICSEARCH_URL as string;
+
+describe("ElastickbirdQuery Aggregations", () => {
+  let Order: ElastickbirdModel;
+
+  beforeEach(async () => {
+    ElasticsearchClient.configure({ node: ELASTICSEARCH_URL });
+
+    Order = new ElastickbirdModel({
+      alias: "test-aggregations-orders",
+      primaryKeyAttribute: "id",
+      mappings: {
+        properties: {
+          id: { type: "keyword" },
+          status: { type: "keyword" },
+          customerId: { type: "keyword" },
+          amount: { type: "double" },
+          createdAt: { type: "date" },
+          items: {
+            type: "nested",
+            properties: {
+              sku: { type: "keyword" },
+              quantity: { type: "integer" },
+            },
+          },
+        },
+      },
+      settings: {
+        number_of_shards: 1,
+        number_of_replicas: 0,
+      },
+    });
+
+    await Order.truncateIndex();
+
+    const bulk = Order.initBulk({ refresh: true });
+    bulk.addIndexOperation({
+      id: "1", status: "paid", customerId: "a", amount: 10, createdAt: "2023-01-10",
+      items: [{ sku: "pen", quantity: 2 }],
+    });
+    bulk.addIndexOperation({
+      id: "2", status: "paid", customerId: "b", amount: 30, createdAt: "2023-01-20",
+      items: [{ sku: "pen", quantity: 1 }, { sku: "ink", quantity: 3 }],
+    });
+    bulk.addIndexOperation({
+      id: "3", status: "pending", customerId: "a", amount: 50, createdAt: "2023-02-05",
+      items: [{ sku: "ink", quantity: 1 }],
+    });
+    await bulk.execute();
+  });
+
+  afterEach(async () => {
+    try {
+      const exists = await Order.existsIndex();
+      if (exists) {
+        await Order.deleteIndex();
+      }
+    } catch (e) {
+      // Ignore cleanup errors
+    }
+    ElasticsearchClient.reset();
+  });
+
+  test("should normalize terms buckets with sub-aggregations", async () => {
+    const results = await Order.query()
+      .setSize(0)
+      .addAggregations((aggs) => aggs
+        .terms("byStatus", "status", {}, (sub) => sub.sum("revenue", "amount").avg("avgAmount", "amount")))
+      .search();
+
+    expect(results.aggs.byStatus.buckets).toEqual([
+      { key: "paid", count: 2, aggs: { revenue: 40, avgAmount: 20 } },
+      { key: "pending", count: 1, aggs: { revenue: 50, avgAmount: 50 } },
+    ]);
+    expect(results.aggs.byStatus.otherCount).toBe(0);
+  });
+
+  test("should compute metrics, date histograms and ranges", async () => {
+    const results = await Order.query()
+      .setSize(0)
+      .addAggregations((aggs) => aggs
+        .min("minAmount", "amount")
+        .max("maxAmount", "amount")
+        .cardinality("customers", "customerId")
+        .dateHistogram("perMonth", "createdAt", { calendarInterval: "month", format: "yyyy-MM" })
+        .range("amounts", "amount", [{ to: 20 }, { from: 20 }]))
+      .search();
+
+    expect(results.aggs.minAmount).toBe(10);
+    expect(results.aggs.maxAmount).toBe(50);
+    expect(results.aggs.customers).toBe(2);
+    expect(results.aggs.perMonth.buckets.map((bucket) => [bucket.keyAsString, bucket.count])).toEqual([
+      ["2023-01", 2],
+      ["2023-02", 1],
+    ]);
+    expect(results.aggs.amounts.buckets.map((bucket) => bucket.count)).toEqual([1, 2]);
+  });
+
+  test("should support filter, nested and reverse nested aggregations", async () => {
+    const results = await Order.query()
+      .setSize(0)
+      .addAggregations((aggs) => aggs
+        .filter("paid", (query) => query.addTerm("status", "paid"), (sub) => sub.sum("revenue", "amount"))
+        .nested("items", "items", (sub) => sub
+          .terms("bySku", "items.sku", {}, (sku) => sku
+            .sum("quantity", "items.quantity")
+            .reverseNested("orders", (orders) => orders.sum("revenue", "amount")))))
+      .search();
+
+    expect(results.aggs.paid).toEqual({ count: 2, aggs: { revenue: 40 } });
+    expect(results.aggs.items.count).toBe(4);
+
+    const ink = results.aggs.items.aggs.bySku.buckets.find((bucket) => bucket.key === "ink");
+    expect(ink?.aggs.quantity).toBe(4);
+    expect(ink?.aggs.orders).toEqual({ count: 2, aggs: { revenue: 80 } });
+  });
+
+  test("should aggregate only the documents matching the query", async () => {
+    const results = await Order.query()
+      .addTerm("customerId", "a")
+      .addAggregations((aggs) => aggs.sum("revenue", "amount"))
+      .search();
+
+    expect(results.rows).toHaveLength(2);
+    expect(results.aggs.revenue).toBe(60);
+  });
+});
@@ -157,6 +157,42 @@ describe("ElastickbirdModel Bulk Operations", () => {
       expect(result.success).toBe(true);
       expect(result.total).toBe(1);
     });
+
+    test("should delete documents without validating them", async () => {
+      const Account = new ElastickbirdModel({
+        alias: 'test-bulk-accounts',
+        primaryKeyAttribute: 'id',
+        mappings: {
+          properties: {
+            id: { type: 'keyword' },
+            email: { type: 'keyword' }
+          }
+        },
+        settings: {
+          number_of_shards: 1,
+          number_of_replicas: 0
+        },
+        validation: {
+          required: ['id', 'email']
+        }
+      });
+      await Account.truncateIndex();
+
+      try {
+        await Account.indexDocument({ id: '1', email: 'john@example.com' }, { refresh: true });
+
+        const bulk = Account.initBulk({ refresh: true });
+        bulk.addOperation('delete', { id: '1' });
+        const result = await bulk.execute();
+
+        expect(result.success).toBe(true);
+        expect(result.validationErrors).toBeUndefined();
+        expect(result.total).toBe(1);
+        expect(await Account.documentExists({ id: '1' })).toBe(false);
+      } finally {
+        await Account.deleteIndex();
+      }
+    });
   });
 
   describe("Bulk Queue Operations", () => {
@@ -1,5 +1,6 @@
 import { ElastickbirdModel } from "../../lib/model/ElastickbirdModel";
 import { ElasticsearchClient } from "../../lib/client/ElasticsearchClient";
+import { isDocumentOperationResult } from "../../lib/utils/ResponseResults";
 
 const ELASTICSEARCH_URL = (global as any).ELASTICSEARCH_URL as string;
 
@@ -170,9 +171,127 @@ describe("ElastickbirdModel CRUD Operations", () => {
     });
   });
 
+  describe("Multi-get", () => {
+    test("should get documents by IDs and payloads in input order", async () => {
+      const results = await User.getDocuments(['2', { id: '1' }]);
+
+      expect(results).toHaveLength(2);
+      expect(results[0]).toMatchObject({ _id: '2', found: true, document: { name: 'Jane Smith' } });
+      expect(results[1]).toMatchObject({ _id: '1', found: true, document: { name: 'John Doe' } });
+    });
+
+    test("should mark missing documents and payloads without ID", async () => {
+      const results = await User.getDocuments(['1', 'missing', { name: 'No ID' }]);
+
+      expect(results[0].found).toBe(true);
+      expect(results[1]).toEqual({ _id: 'missing', found: false });
+      expect(results[2]._id).toBeNull();
+      expect(results[2].found).toBe(false);
+      expect(results[2].error).toContain('Missing primary key field');
+    });
+
+    test("should only return the requested fields", async () => {
+      const [result] = await User.getDocuments(['1'], { fields: ['name'] });
+
+      expect(result.document).toEqual({ name: 'John Doe' });
+    });
+
+    test("should require payloads on routed models", async () => {
+      const Order = new ElastickbirdModel({
+        alias: 'test-crud-orders',
+        primaryKeyAttribute: 'id',
+        routing: 'customerId',
+        mappings: {
+          properties: {
+            id: { type: 'keyword' },
+            customerId: { type: 'keyword' }
+          }
+        },
+        settings: {
+          number_of_shards: 2,
+          number_of_replicas: 0
+        }
+      });
+      await Order.truncateIndex();
+
+      try {
+        await Order.indexDocument({ id: '1', customerId: 'c1' }, { refresh: true });
+
+        const results = await Order.getDocuments(['1', { id: '1', customerId: 'c1' }]);
+
+        expect(results[0]).toEqual({ _id: '1', found: false, error: 'Routed documents must be requested by payload' });
+        expect(results[1]).toMatchObject({ _id: '1', found: true, document: { id: '1', customerId: 'c1' } });
+      } finally {
+        await Order.deleteIndex();
+      }
+    });
+  });
+
+  describe("Optimistic Concurrency Control", () => {
+    test("should return the document metadata", async () => {
+      const result = await User.indexDocument({ id: '3', name: 'Bob' });
+
+      expect(result._id).toBe('3');
+      expect(result._version).toBe(1);
+      expect(typeof result._seq_no).toBe('number');
+      expect(typeof result._primary_term).toBe('number');
+
+      const doc = await User.getDocument({ id: '3' }, { metadata: true });
+      expect(doc).toMatchObject({
+        _id: '3',
+        _version: 1,
+        _seq_no: result._seq_no,
+        _primary_term: result._primary_term,
+        _source: { id: '3', name: 'Bob' }
+      });
+    });
+
+    const getMetadata = async (id: string) => {
+      const doc = await User.getDocument({ id }, { metadata: true });
+      if (isDocumentOperationResult(doc)) throw new Error(doc.error);
+      return doc;
+    };
+
+    test("should write when the sequence number matches", async () => {
+      const { _seq_no, _primary_term } = await getMetadata('1');
+
+      const result = await User.updateDocument({ id: '1', age: 31 }, { ifSeqNo: _seq_no, ifPrimaryTerm: _primary_term });
+
+      expect(result.success).toBe(true);
+      expect(result._seq_no).toBeGreaterThan(_seq_no);
+    });
+
+    test("should return a conflict result on stale writes", async () => {
+      const { _seq_no, _primary_term } = await getMetadata('1');
+      await User.updateDocument({ id: '1', age: 31 });
+
+      const update = await User.updateDocument({ id: '1', age: 32 }, { ifSeqNo: _seq_no, ifPrimaryTerm: _primary_term });
+      expect(update.success).toBe(false);
+      expect(update.result).toBe('conflict');
+      expect(update.error).toContain('version conflict');
+
+      const index = await User.indexDocument({ id: '1', name: 'John' }, { ifSeqNo: _seq_no, ifPrimaryTerm: _primary_term });
+      expect(index.result).toBe('conflict');
+
+      const remove = await User.deleteDocument({ id: '1' }, { ifSeqNo: _seq_no, ifPrimaryTerm: _primary_term });
+      expect(remove.result).toBe('conflict');
+      expect(await User.documentExists({ id: '1' })).toBe(true);
+    });
+
+    test("should support external versioning", async () => {
+      const result = await User.indexDocument({ id: '4', name: 'Ann' }, { version: 10, versionType: 'external' });
+      expect(result._version).toBe(10);
+
+      const stale = await User.indexDocument({ id: '4', name: 'Ann' }, { version: 5, versionType: 'external' });
+      expect(stale.success).toBe(false);
+      expect(stale.result).toBe('conflict');
+    });
+  });
+
   describe("Error Handling", () => {
     test("should handle missing ID for operations requiring it", async () => {
       const resultGet = await User.getDocument({});
+      expect(isDocumentOperationResult(resultGet)).toBe(true);
       expect(resultGet.success).toBe(false);
       expect(resultGet.error).toContain('Missing primary key field');
 
@@ -0,0 +1,138 @@
+import { ElastickbirdModel } from "../../lib/model/ElastickbirdModel";
+import { ElasticsearchClient } from "../../lib/client/ElasticsearchClient";
+import { ElastickbirdFilterRules } from "../../lib/utils/ElastickbirdFilterRules";
+
+const ELASTICSEARCH_URL = (global as any).ELASTICSEARCH_URL as string;
+
+describe("ElastickbirdQuery Facets", () => {
+  let Product: ElastickbirdModel;
+
+  beforeEach(async () => {
+    ElasticsearchClient.configure({ node: ELASTICSEARCH_URL });
+
+    Product = new ElastickbirdModel({
+      alias: "test-facets-products",
+      primaryKeyAttribute: "id",
+      mappings: {
+        properties: {
+          id: { type: "keyword" },
+          category: { type: "keyword" },
+          brand: { type: "keyword" },
+          color: { type: "keyword" },
+          size: { type: "keyword" },
+        },
+      },
+      settings: {
+        number_of_shards: 1,
+        number_of_replicas: 0,
+      },
+      filterRules: new ElastickbirdFilterRules({
+        "size-group": (query: any, group: string) => {
+          query.addTerms("size", group === "small" ? ["XS", "S"] : ["L", "XL"]);
+        },
+      }),
+      facets: {
+        brand: { field: "brand" },
+        color: { field: "color", size: 5 },
+        sizeGroup: { filterRule: "size-group", values: ["small", "large"] },
+      },
+    });
+
+    await Product.truncateIndex();
+
+    const bulk = Product.initBulk({ refresh: true });
+    bulk.addIndexOperation({ id: "1", category: "shoes", brand: "acme", color: "red", size: "S" });
+    bulk.addIndexOperation({ id: "2", category: "shoes", brand: "acme", color: "blue", size: "L" });
+    bulk.addIndexOperation({ id: "3", category: "shoes", brand: "zen", color: "red", size: "XS" });
+    bulk.addIndexOperation({ id: "4", category: "shoes", brand: "zen", color: "green", size: "XL" });
+    bulk.addIndexOperation({ id: "5", category: "hats", brand: "acme", color: "red", size: "S" });
+    await bulk.execute();
+  });
+
+  afterEach(async () => {
+    try {
+      const exists = await Product.existsIndex();
+      if (exists) {
+        await Product.deleteIndex();
+      }
+    } catch (e) {
+      // Ignore cleanup errors
+    }
+    ElasticsearchClient.reset();
+  });
+
+  test("should count every facet value without selections", async () => {
+    const results = await Product.query()
+      .addTerm("category", "shoes")
+      .addFacets(["brand", "color"])
+      .search();
+
+    expect(results.count).toBe(4);
+    expect(results.facets!.brand).toEqual({
+      selected: [],
+      available: [
+        { value: "acme", count: 2, selected: false },
+        { value: "zen", count: 2, selected: false },
+      ],
+    });
+    expect(results.facets!.color.available.map((bucket) => bucket.value)).toEqual(["red", "blue", "green"]);
+  });
+
+  test("should ignore the facet's own selection in its counts", async () => {
+    const results = await Product.query()
+      .addTerm("category", "shoes")
+      .addFacets()
+      .setFacetSelections({ brand: "acme" })
+      .search();
+
+    // hits are filtered by the selection
+    expect(results.count).toBe(2);
+    expect(results.rows.every((row) => row.brand === "acme")).toBe(true);
+
+    // brand counts ignore the brand selection
+    expect(results.facets!.brand.selected).toEqual([{ value: "acme", count: 2, selected: true }]);
+    expect(results.facets!.brand.available).toEqual([{ value: "zen", count: 2, selected: false }]);
+
+    // other facets apply it
+    expect(results.facets!.color.available).toEqual([
+      { value: "blue", count: 1, selected: false },
+      { value: "red", count: 1, selected: false },
+    ]);
+  });
+
+  test("should combine the values of a facet with OR and use filter rules", async () => {
+    const results = await Product.query()
+      .addTerm("category", "shoes")
+      .addFacets(["color"])
+      .setFacetSelections({ color: ["red", "blue"], sizeGroup: "small" })
+      .search();
+
+    expect(results.rows.map((row) => row.id).sort()).toEqual(["1", "3"]);
+    expect(results.facets!.color.selected).toEqual([
+      { value: "red", count: 2, selected: true },
+      { value: "blue", count: 0, selected: true },
+    ]);
+  });
+
+  test("should count the declared values of filter rule facets", async () => {
+    const results = await Product.query()
+      .addTerm("category", "shoes")
+      .addFacets(["sizeGroup"])
+      .setFacetSelections({ sizeGroup: "small" })
+      .search();
+
+    expect(results.rows.map((row) => row.id).sort()).toEqual(["1", "3"]);
+    expect(results.facets!.sizeGroup).toEqual({
+      selected: [{ value: "small", count: 2, selected: true }],
+      available: [{ value: "large", count: 2, selected: false }],
+    });
+  });
+
+  test("should reject undefined facets", () => {
+    expect(() => Product.query().addFacets(["unknown"])).toThrow("Undefined facet: unknown");
+    expect(() => Product.query().setFacetSelections({ unknown: "a" })).toThrow("Undefined facet: unknown");
+    expect(() => Product.query().setFacetSelections({ sizeGroup: "medium" })).toThrow(
+      "Undefined value of facet sizeGroup: medium"
+    );
+  });
+});
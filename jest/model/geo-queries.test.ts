@@ -0,0 +1,102 @@
+import { ElastickbirdModel } from "../../lib/model/ElastickbirdModel";
+import { ElasticsearchClient } from "../../lib/client/ElasticsearchClient";
+
+const ELASTICSEARCH_URL = (global as any).ELASTICSEARCH_URL as string;
+
+const MADRID = { lat: 40.4168, lon: -3.7038 };
+
+describe("ElastickbirdQuery Geo Queries", () => {
+  let Store: ElastickbirdModel;
+
+  beforeEach(async () => {
+    ElasticsearchClient.configure({ node: ELASTICSEARCH_URL });
+
+    Store = new ElastickbirdModel({
+      alias: "test-geo-stores",
+      primaryKeyAttribute: "id",
+      mappings: {
+        properties: {
+          id: { type: "keyword" },
+          city: { type: "keyword" },
+          location: { type: "geo_point" },
+        },
+      },
+      settings: {
+        number_of_shards: 1,
+        number_of_replicas: 0,
+      },
+      sortRules: {
+        nearest: (query: any, order: string, origin: any) => {
+          query.addGeoDistanceSort("location", origin, "km", { order, distanceField: "distance" });
+        },
+      },
+    });
+
+    await Store.truncateIndex();
+
+    const bulk = Store.initBulk({ refresh: true });
+    bulk.addIndexOperation({ id: "madrid", city: "Madrid", location: { lat: 40.4169, lon: -3.7035 } });
+    bulk.addIndexOperation({ id: "toledo", city: "Toledo", location: { lat: 39.8628, lon: -4.0273 } });
+    bulk.addIndexOperation({ id: "barcelona", city: "Barcelona", location: { lat: 41.3874, lon: 2.1686 } });
+    await bulk.execute();
+  });
+
+  afterEach(async () => {
+    try {
+      const exists = await Store.existsIndex();
+      if (exists) {
+        await Store.deleteIndex();
+      }
+    } catch (e) {
+      // Ignore cleanup errors
+    }
+    ElasticsearchClient.reset();
+  });
+
+  test("should match the points within a distance", async () => {
+    const results = await Store.query().addGeoDistance("location", MADRID, "100km").addSort("id", "asc").search();
+
+    expect(results.rows.map((row) => row.id)).toEqual(["madrid", "toledo"]);
+  });
+
+  test("should match the points within a bounding box", async () => {
+    const results = await Store.query()
+      .addGeoBoundingBox("location", { topLeft: { lat: 42, lon: -1 }, bottomRight: { lat: 41, lon: 3 } })
+      .search();
+
+    expect(results.rows.map((row) => row.id)).toEqual(["barcelona"]);
+  });
+
+  test("should match the points within a polygon", async () => {
+    const results = await Store.query()
+      .addGeoPolygon("location", [
+        { lat: 40, lon: -4.5 },
+        { lat: 41, lon: -4.5 },
+        { lat: 41, lon: -3 },
+        { lat: 40, lon: -3 },
+      ])
+      .search();
+
+    expect(results.rows.map((row) => row.id)).toEqual(["madrid"]);
+  });
+
+  test("should sort by distance and merge the distance into the rows", async () => {
+    const results = await Store.query().addGeoDistanceSort("location", MADRID, "km", { distanceField: "distance" }).search();
+
+    expect(results.rows.map((row) => row.id)).toEqual(["madrid", "toledo", "barcelona"]);
+    expect(results.rows[0].distance).toBeLessThan(1);
+    expect(results.rows[1].distance).toBeGreaterThan(60);
+    expect(results.rows[1].distance).toBeLessThan(80);
+  });
+
+  test("should sort by distance through a sort rule", async () => {
+    const results = await Store.query().applySortRule("-nearest", MADRID).search();
+
+    expect(results.rows.map((row) => row.id)).toEqual(["barcelona", "toledo", "madrid"]);
+    expect(results.rows[0].distance).toBeGreaterThan(400);
+  });
+
+  test("should reject polygons with less than 3 points", () => {
+    expect(() => Store.query().addGeoPolygon("location", [MADRID, MADRID])).toThrow("At least 3 points are required");
+  });
+});
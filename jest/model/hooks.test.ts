@@ -0,0 +1,157 @@
+import { ElastickbirdModel } from "../../lib/model/ElastickbirdModel";
+import { ElasticsearchClient } from "../../lib/client/ElasticsearchClient";
+import { HookAbortError } from "../../lib/model/errors";
+import { HookContext } from "../../lib/types";
+
+const ELASTICSEARCH_URL = (global as any).ELASTICSEARCH_URL as string;
+
+describe("ElastickbirdModel Lifecycle Hooks", () => {
+  let User: ElastickbirdModel;
+
+  beforeEach(async () => {
+    ElasticsearchClient.configure({ node: ELASTICSEARCH_URL });
+
+    User = new ElastickbirdModel({
+      alias: "test-hooks-users",
+      primaryKeyAttribute: "id",
+      mappings: {
+        properties: {
+          id: { type: "keyword" },
+          name: { type: "keyword" },
+          slug: { type: "keyword" },
+        },
+      },
+      settings: {
+        number_of_shards: 1,
+        number_of_replicas: 0,
+      },
+      hooks: {
+        pre: {
+          index: (context: HookContext) => {
+            context.payload.slug = context.payload.name?.toLowerCase();
+          },
+        },
+      },
+    });
+
+    await User.truncateIndex();
+  });
+
+  afterEach(async () => {
+    try {
+      const exists = await User.existsIndex();
+      if (exists) {
+        await User.deleteIndex();
+      }
+    } catch (e) {
+      // Ignore cleanup errors
+    }
+    ElasticsearchClient.reset();
+  });
+
+  describe("Document Hooks", () => {
+    test("should let schema pre hooks change the document", async () => {
+      await User.indexDocument({ id: "1", name: "John" }, { refresh: true });
+
+      const doc = await User.getDocumentById("1");
+      expect(doc).toEqual({ id: "1", name: "John", slug: "john" });
+    });
+
+    test("should pass the result to post hooks", async () => {
+      const results: any[] = [];
+      User.post("create", (context) => {
+        results.push(context.result);
+      });
+
+      await User.createDocument({ id: "1", name: "John" });
+
+      expect(results).toHaveLength(1);
+      expect(results[0].success).toBe(true);
+      expect(results[0].created).toBe(1);
+    });
+
+    test("should abort the operation from a pre hook", async () => {
+      const postHook = jest.fn();
+      User.pre("delete", (context) => {
+        if (context.payload.id === "admin") context.abort("Cannot delete the admin user");
+      }).post("delete", postHook);
+
+      await User.indexDocument({ id: "admin", name: "Admin" }, { refresh: true });
+      const result = await User.deleteDocument({ id: "admin" });
+
+      expect(result.success).toBe(false);
+      expect(result.aborted).toBe(true);
+      expect(result.error).toBe("Cannot delete the admin user");
+      expect(postHook).not.toHaveBeenCalled();
+      expect(await User.documentExists({ id: "admin" })).toBe(true);
+    });
+
+    test("should run async hooks sequentially", async () => {
+      const order: string[] = [];
+      User.pre("update", async () => {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        order.push("first");
+      }).pre("update", () => {
+        order.push("second");
+      });
+
+      await User.indexDocument({ id: "1", name: "John" });
+      await User.updateDocument({ id: "1", name: "Jane" });
+
+      expect(order).toEqual(["first", "second"]);
+    });
+  });
+
+  describe("Search Hooks", () => {
+    test("should let pre hooks change the search request", async () => {
+      await User.indexDocument({ id: "1", name: "John" });
+      await User.indexDocument({ id: "2", name: "Jane" }, { refresh: true });
+
+      User.pre("search", (context) => {
+        context.payload.query = { term: { name: "Jane" } };
+      });
+
+      const result = await User.search({ query: { match_all: {} } });
+      expect(result.count).toBe(1);
+      expect(result.rows[0].id).toBe("2");
+    });
+
+    test("should reject aborted searches", async () => {
+      User.pre("search", (context) => context.abort());
+
+      await expect(User.search({})).rejects.toBeInstanceOf(HookAbortError);
+    });
+  });
+
+  describe("Bulk Hooks", () => {
+    test("should run bulk hooks with the operation items", async () => {
+      const results: any[] = [];
+      User.pre("bulk", (context) => {
+        context.payload = context.payload.filter((item: any) => item._id !== "2");
+      }).post("bulk", (context) => {
+        results.push(context.result);
+      });
+
+      const bulk = User.initBulk({ refresh: true });
+      bulk.addIndexOperation({ id: "1", name: "John" });
+      bulk.addIndexOperation({ id: "2", name: "Jane" });
+      const result = await bulk.execute();
+
+      expect(result.success).toBe(true);
+      expect(result.total).toBe(1);
+      expect(results).toHaveLength(1);
+      expect(await User.documentExists({ id: "2" })).toBe(false);
+    });
+
+    test("should reject the completion of a queue with an aborted batch", async () => {
+      User.pre("bulk", (context) => {
+        if (context.payload.some((item: any) => item._id === "admin")) context.abort("Cannot index the admin user");
+      });
+
+      const bulkQueue = User.initBulkQueue({ batchSize: 1 });
+      bulkQueue.addOperationsToQueue("index", [{ id: "admin", name: "Admin" }]);
+
+      await expect(bulkQueue.waitForCompletion()).rejects.toThrow(HookAbortError);
+    });
+  });
+});
@@ -0,0 +1,360 @@
+import { ElastickbirdModel } from "../../lib/model/ElastickbirdModel";
+import { ElasticsearchClient } from "../../lib/client/ElasticsearchClient";
+import { MappingConflictError } from "../../lib/model/errors";
+import { ElastickbirdComponentTemplate } from "../../lib/template/ElastickbirdComponentTemplate";
+
+const ELASTICSEARCH_URL = (global as any).ELASTICSEARCH_URL as string;
+
+describe("ElastickbirdModel Index Management", () => {
+  let User: ElastickbirdModel;
+
+  beforeEach(async () => {
+    ElasticsearchClient.configure({ node: ELASTICSEARCH_URL });
+
+    User = new ElastickbirdModel({
+      alias: "test-index-management-users",
+      primaryKeyAttribute: "id",
+      mappings: {
+        properties: {
+          id: { type: "keyword" },
+          name: { type: "text" },
+          age: { type: "integer" },
+        },
+      },
+      settings: {
+        number_of_shards: 1,
+        number_of_replicas: 0,
+      },
+    });
+
+    await User.truncateIndex();
+    await User.indexDocument({ id: "1", name: "John Doe", age: 30 });
+    await User.indexDocument({ id: "2", name: "Jane Smith", age: 25 });
+    await User.refreshIndex();
+  });
+
+  afterEach(async () => {
+    try {
+      const exists = await User.existsIndex();
+      if (exists) {
+        await User.deleteIndex();
+      }
+    } catch (e) {
+      // Ignore cleanup errors
+    }
+    ElasticsearchClient.reset();
+  });
+
+  describe("Reindex", () => {
+    test("should copy documents into a new index and move the alias", async () => {
+      const oldIndex = await User.getIndexName();
+
+      const result = await User.reindex({ progressIntervalDelay: 100 });
+
+      expect(result.success).toBe(true);
+      expect(result.oldIndex).toBe(oldIndex);
+      expect(result.oldIndices).toEqual([oldIndex]);
+      expect(result.total).toBe(2);
+      expect(result.created).toBe(2);
+      expect(await User.getIndexName()).toBe(result.newIndex);
+
+      const client = ElasticsearchClient.getClient();
+      expect(await client.indices.exists({ index: result.oldIndex })).toBe(false);
+
+      const user = await User.getDocument({ id: "1" });
+      expect(user.name).toBe("John Doe");
+    });
+
+    test("should keep the old index when requested", async () => {
+      const result = await User.reindex({ deleteOldIndex: false, progressIntervalDelay: 100 });
+
+      const client = ElasticsearchClient.getClient();
+      expect(result.success).toBe(true);
+      expect(await client.indices.exists({ index: result.oldIndex })).toBe(true);
+      expect(await User.getIndexName()).toBe(result.newIndex);
+
+      await client.indices.delete({ index: result.oldIndex });
+    });
+
+    test("should not reuse the name of an index created in the same instant", async () => {
+      const { index: first } = await User.createIndex({ setAlias: false });
+      const { index: second } = await User.createIndex({ setAlias: false });
+
+      expect(second).not.toBe(first);
+      expect(await User.listIndices()).toHaveLength(3);
+
+      const client = ElasticsearchClient.getClient();
+      await client.indices.delete({ index: [first, second] });
+    });
+  });
+
+  describe("Mapping Diff", () => {
+    const createModel = (properties: Record<string, any>) =>
+      new ElastickbirdModel({ alias: "test-index-management-users", mappings: { properties } });
+
+    test("should report no changes when the mapping is in sync", async () => {
+      const diff = await User.diffMapping();
+
+      expect(diff.inSync).toBe(true);
+      expect(diff.requiresReindex).toBe(false);
+      expect(diff.changes).toEqual([]);
+    });
+
+    test("should report added fields as compatible with putMapping", async () => {
+      const model = createModel({
+        id: { type: "keyword" },
+        name: { type: "text" },
+        age: { type: "integer" },
+        email: { type: "keyword" },
+      });
+
+      const diff = await model.diffMapping();
+
+      expect(diff.inSync).toBe(false);
+      expect(diff.requiresReindex).toBe(false);
+      expect(diff.changes).toEqual([
+        expect.objectContaining({ field: "email", type: "added", requiresReindex: false }),
+      ]);
+    });
+
+    test("should report type and analyzer changes as requiring a reindex", async () => {
+      const model = createModel({
+        id: { type: "keyword" },
+        name: { type: "text", analyzer: "simple" },
+        age: { type: "keyword" },
+      });
+
+      const diff = await model.diffMapping();
+
+      expect(diff.requiresReindex).toBe(true);
+      expect(diff.changes).toEqual([
+        expect.objectContaining({ field: "name", parameters: ["analyzer"], requiresReindex: true }),
+        expect.objectContaining({ field: "age", parameters: ["type"], requiresReindex: true }),
+      ]);
+      await expect(model.diffMapping({ strict: true })).rejects.toThrow(MappingConflictError);
+    });
+
+    test("should ignore the dense vector parameters filled in by Elasticsearch", async () => {
+      const createVectorModel = (embedding: Record<string, any>) =>
+        new ElastickbirdModel({
+          alias: "test-index-management-vectors",
+          mappings: { properties: { id: { type: "keyword" }, embedding } },
+          settings: { number_of_shards: 1, number_of_replicas: 0 },
+        });
+      const Vector = createVectorModel({ type: "dense_vector", dims: 3 });
+      await Vector.truncateIndex();
+
+      try {
+        const diff = await Vector.diffMapping({ strict: true });
+        expect(diff.inSync).toBe(true);
+
+        const changed = await createVectorModel({ type: "dense_vector", dims: 3, similarity: "dot_product" }).diffMapping();
+        expect(changed.changes).toEqual([
+          expect.objectContaining({ field: "embedding", parameters: ["similarity"], requiresReindex: true }),
+        ]);
+      } finally {
+        await Vector.deleteIndex();
+      }
+    });
+  });
+
+  describe("Rollover", () => {
+    let Event: ElastickbirdModel;
+
+    beforeEach(async () => {
+      Event = new ElastickbirdModel({
+        alias: "test-index-management-events",
+        mappings: {
+          properties: {
+            id: { type: "keyword" },
+            type: { type: "keyword" },
+          },
+        },
+        settings: {
+          number_of_shards: 1,
+          number_of_replicas: 0,
+        },
+        rollover: { maxDocs: 2 },
+      });
+      await Event.truncateIndex();
+    });
+
+    afterEach(async () => {
+      await Event.deleteIndex();
+    });
+
+    test("should not roll over before the conditions are met", async () => {
+      await Event.indexDocument({ id: "1", type: "click" }, { refresh: true });
+
+      const result = await Event.rollover();
+
+      expect(result.rolledOver).toBe(false);
+      expect(result.conditions["[max_docs: 2]"]).toBe(false);
+    });
+
+    test("should write to the new generation and search across all of them", async () => {
+      await Event.indexDocument({ id: "1", type: "click" });
+      await Event.indexDocument({ id: "2", type: "click" }, { refresh: true });
+      const oldIndex = await Event.getIndexName();
+
+      const result = await Event.rollover();
+
+      expect(result.rolledOver).toBe(true);
+      expect(result.oldIndex).toBe(oldIndex);
+      expect(await Event.getIndexName()).toBe(result.newIndex);
+      expect(await Event.getIndexNames()).toHaveLength(2);
+
+      await Event.indexDocument({ id: "3", type: "view" }, { refresh: true });
+      const client = ElasticsearchClient.getClient();
+      const { count } = await client.count({ index: result.newIndex });
+      expect(count).toBe(1);
+
+      const results = await Event.query().search();
+      expect(results.count).toBe(3);
+    });
+
+    test("should read, update and delete the documents of previous generations", async () => {
+      await Event.indexDocument({ id: "1", type: "click" });
+      await Event.indexDocument({ id: "2", type: "click" }, { refresh: true });
+      const { oldIndex } = await Event.rollover();
+      await Event.indexDocument({ id: "3", type: "view" }, { refresh: true });
+
+      expect(await Event.getDocument({ id: "1" })).toEqual({ id: "1", type: "click" });
+      expect(await Event.documentExists({ id: "1" })).toBe(true);
+      const items = await Event.getDocuments(["1", "3", "4"]);
+      expect(items.map((item) => item.found)).toEqual([true, true, false]);
+
+      const updated = await Event.updateDocument({ id: "1", type: "view" }, { refresh: true });
+      expect(updated.success).toBe(true);
+      expect(updated._index).toBe(oldIndex);
+      expect(await Event.getDocumentById("1")).toEqual({ id: "1", type: "view" });
+
+      const deleted = await Event.deleteDocument({ id: "1" }, { refresh: true });
+      expect(deleted.success).toBe(true);
+      expect(await Event.documentExists({ id: "1" })).toBe(false);
+    });
+
+    test("should re-index the documents of previous generations in place", async () => {
+      await Event.indexDocument({ id: "1", type: "click" });
+      await Event.indexDocument({ id: "2", type: "click" }, { refresh: true });
+      const { oldIndex } = await Event.rollover();
+
+      const indexed = await Event.indexDocument({ id: "1", type: "view" }, { refresh: true });
+      expect(indexed.success).toBe(true);
+      expect(indexed._index).toBe(oldIndex);
+
+      const results = await Event.query().search();
+      expect(results.count).toBe(2);
+      expect(await Event.getDocumentById("1")).toEqual({ id: "1", type: "view" });
+
+      const created = await Event.createDocument({ id: "2", type: "view" });
+      expect(created.success).toBe(false);
+      expect(created.result).toBe("conflict");
+    });
+  });
+
+  describe("Generation Indices", () => {
+    test("should list the indices of the model", async () => {
+      const indices = await User.listIndices();
+
+      expect(indices).toHaveLength(1);
+      expect(indices[0].index).toBe(await User.getIndexName());
+      expect(indices[0].docsCount).toBe(2);
+      expect(indices[0].hasAlias).toBe(true);
+      expect(indices[0].isWriteIndex).toBe(true);
+      expect(indices[0].createdAt).toBeInstanceOf(Date);
+    });
+
+    test("should prune orphaned indices and never the aliased one", async () => {
+      const client = ElasticsearchClient.getClient();
+      const orphan = "test-index-management-users_202001010000000";
+      await client.indices.create({ index: orphan });
+
+      const recent = await User.pruneIndices({ dryRun: true });
+      expect(recent.deleted).toEqual([]);
+      expect(recent.kept).toEqual([orphan]);
+
+      const dryRun = await User.pruneIndices({ olderThan: 0, dryRun: true });
+      expect(dryRun.deleted).toEqual([orphan]);
+      expect(await client.indices.exists({ index: orphan })).toBe(true);
+
+      const kept = await User.pruneIndices({ olderThan: new Date("2000-01-01") });
+      expect(kept.deleted).toEqual([]);
+      expect(kept.kept).toEqual([orphan]);
+
+      const result = await User.pruneIndices({ olderThan: 0 });
+      expect(result.deleted).toEqual([orphan]);
+      expect(await client.indices.exists({ index: orphan })).toBe(false);
+      expect(await User.existsIndex()).toBe(true);
+    });
+  });
+
+  describe("Templates", () => {
+    const Timestamps = new ElastickbirdComponentTemplate({
+      name: "test-index-management-timestamps",
+      mappings: {
+        properties: {
+          createdAt: { type: "date" },
+          updatedAt: { type: "date" },
+        },
+      },
+      settings: {
+        analysis: {
+          analyzer: {
+            lowercase_keyword: { type: "custom", tokenizer: "keyword", filter: ["lowercase"] },
+          },
+        },
+      },
+    });
+
+    const Article = new ElastickbirdModel({
+      alias: "test-index-management-articles",
+      componentTemplates: [Timestamps],
+      mappings: {
+        properties: {
+          id: { type: "keyword" },
+          slug: { type: "text", analyzer: "lowercase_keyword" },
+        },
+      },
+      settings: {
+        number_of_shards: 1,
+        number_of_replicas: 0,
+      },
+    });
+
+    afterEach(async () => {
+      await Article.deleteIndex();
+      await Article.deleteIndexTemplate();
+      await Timestamps.delete();
+    });
+
+    test("should merge component template mappings into the model mappings", () => {
+      expect(Object.keys(Article.getMappingsProperties())).toEqual([
+        "createdAt",
+        "updatedAt",
+        "id",
+        "slug",
+      ]);
+      expect(Article.getSettings().analysis.analyzer.lowercase_keyword).toBeDefined();
+      expect(Article.getSettings().number_of_shards).toBe(1);
+    });
+
+    test("should apply the schema to indices created by Elasticsearch", async () => {
+      expect(await Article.putIndexTemplate()).toBe(true);
+      expect(await Article.existsIndexTemplate()).toBe(true);
+      expect(await Timestamps.exists()).toBe(true);
+
+      const client = ElasticsearchClient.getClient();
+      const index = "test-index-management-articles_202001010000000";
+      await client.indices.create({ index, aliases: { [Article.getAlias()]: {} } });
+
+      const mappings = await client.indices.getMapping({ index });
+      expect(Object.keys(mappings[index].mappings.properties || {}).sort()).toEqual([
+        "createdAt",
+        "id",
+        "slug",
+        "updatedAt",
+      ]);
+    });
+  });
+});
@@ -1,5 +1,6 @@
 import { ElastickbirdModel } from "../../lib/model/ElastickbirdModel";
 import { ElasticsearchClient } from "../../lib/client/ElasticsearchClient";
+import { f } from "../../lib/schema/fields";
 
 const ELASTICSEARCH_URL = (global as any).ELASTICSEARCH_URL as string;
 
@@ -38,6 +39,52 @@ describe("ElastickbirdModel Initialization", () => {
     expect(model).toBeInstanceOf(ElastickbirdModel);
   });
 
+  test("should define a model typed from its mappings", () => {
+    const model = ElastickbirdModel.define({
+      alias: "test-example",
+      mappings: {
+        properties: {
+          name: { type: "text" },
+          age: { type: "integer" }
+        }
+      }
+    });
+    expect(model).toBeInstanceOf(ElastickbirdModel);
+    expect(model.getId({ id: "1", name: "John" } as any)).toBe("1");
+    expect(model.query().addTerm("age", 30).build().query.bool.filter).toEqual([
+      { term: { age: 30 } }
+    ]);
+  });
+
+  test("should create index from field builder mappings", async () => {
+    const model = ElastickbirdModel.define({
+      alias: "test-example",
+      mappings: f.mappings({
+        name: f.text({ analyzer: "english", fields: { raw: f.keyword({ ignoreAbove: 256 }) } }),
+        tags: f.array(f.keyword()),
+        status: f.keyword({ nullValue: "unknown" }),
+        address: f.object({ city: f.keyword() }),
+        items: f.nested({ sku: f.keyword(), quantity: f.integer() })
+      }, { dynamic: "strict" })
+    });
+
+    await model.createIndex();
+
+    const diff = await model.diffMapping();
+    expect(diff.inSync).toBe(true);
+    // mappings are sent to Elasticsearch as JSON
+    expect(JSON.parse(JSON.stringify(model.getMappings()))).toEqual({
+      dynamic: "strict",
+      properties: {
+        name: { type: "text", analyzer: "english", fields: { raw: { type: "keyword", ignore_above: 256 } } },
+        tags: { type: "keyword" },
+        status: { type: "keyword", null_value: "unknown" },
+        address: { type: "object", properties: { city: { type: "keyword" } } },
+        items: { type: "nested", properties: { sku: { type: "keyword" }, quantity: { type: "integer" } } }
+      }
+    });
+  });
+
   test("should throw error when creating index without client connection", () => {
     ElasticsearchClient.reset();
     const model = new ElastickbirdModel({ 
@@ -0,0 +1,114 @@
+import { ElastickbirdModel } from "../../lib/model/ElastickbirdModel";
+import { ElasticsearchClient } from "../../lib/client/ElasticsearchClient";
+import { ElastickbirdFilterRules } from "../../lib/utils/ElastickbirdFilterRules";
+import { f } from "../../lib/schema/fields";
+
+const ELASTICSEARCH_URL = (global as any).ELASTICSEARCH_URL as string;
+
+describe("ElastickbirdQuery kNN Search", () => {
+  const mappings = f.mappings({
+    id: f.keyword(),
+    title: f.text(),
+    status: f.keyword(),
+    embedding: f.denseVector({ dims: 3, similarity: "cosine" }),
+  });
+
+  const createModel = () => ElastickbirdModel.define({
+    alias: "test-knn-articles",
+    mappings,
+    settings: {
+      number_of_shards: 1,
+      number_of_replicas: 0,
+    },
+    validation: {},
+    filterRules: new ElastickbirdFilterRules({
+      published: (query: any) => {
+        query.addTerm("status", "published");
+      },
+    }),
+  });
+
+  let Article: ReturnType<typeof createModel>;
+
+  const ids = (results: { rows: any[] }) => results.rows.map((row) => row.id);
+
+  beforeEach(async () => {
+    ElasticsearchClient.configure({ node: ELASTICSEARCH_URL });
+
+    Article = createModel();
+    await Article.truncateIndex();
+
+    const bulk = Article.initBulk({ refresh: true });
+    bulk.addIndexOperation({ id: "apple", title: "red apple", status: "published", embedding: [1, 0, 0] });
+    bulk.addIndexOperation({ id: "pear", title: "green pear", status: "draft", embedding: [0.9, 0.1, 0] });
+    bulk.addIndexOperation({ id: "banana", title: "yellow banana", status: "published", embedding: [0, 1, 0] });
+    await bulk.execute();
+  });
+
+  afterEach(async () => {
+    try {
+      const exists = await Article.existsIndex();
+      if (exists) {
+        await Article.deleteIndex();
+      }
+    } catch (e) {
+      // Ignore cleanup errors
+    }
+    ElasticsearchClient.reset();
+  });
+
+  test("should map dense vector fields", () => {
+    expect(Article.getMappings().properties.embedding).toEqual({ type: "dense_vector", dims: 3, similarity: "cosine" });
+    expect(Article.validate({ embedding: [1, 0] })).toEqual([
+      { field: "embedding", rule: "type", message: "Expected a value of type dense_vector", value: [1, 0] },
+    ]);
+  });
+
+  test("should return the nearest neighbors with their similarity", async () => {
+    const query = Article.query().knn({ field: "embedding", queryVector: [1, 0, 0], k: 2 });
+    expect(query.build().query).toBeUndefined();
+
+    const results = await query.search({ metadata: ["_score"] });
+
+    expect(ids(results)).toEqual(["apple", "pear"]);
+    expect(results.rows[0]._score).toBeCloseTo(1, 5);
+    expect(results.rows[1]._score).toBeLessThan(results.rows[0]._score!);
+  });
+
+  test("should filter the neighbors with a query builder or filter rules", async () => {
+    const byBuilder = await Article.query()
+      .knn({ field: "embedding", queryVector: [1, 0, 0], k: 2, filter: (query) => query.addTerm("status", "published") })
+      .search();
+    expect(ids(byBuilder)).toEqual(["apple", "banana"]);
+
+    const byRule = await Article.query()
+      .knn({ field: "embedding", queryVector: [1, 0, 0], k: 2, filter: "published" })
+      .search();
+    expect(ids(byRule)).toEqual(["apple", "banana"]);
+  });
+
+  test("should combine kNN with the query clauses", async () => {
+    const query = Article.query();
+    query.must().addMatch("title", "banana");
+    query.knn({ field: "embedding", queryVector: [1, 0, 0], k: 1, boost: 0.5 });
+
+    const results = await query.search({ metadata: ["_score"] });
+
+    expect(ids(results).sort()).toEqual(["apple", "banana"]);
+    expect(results.rows.every((row) => row._score! > 0)).toBe(true);
+  });
+
+  test("should reject invalid kNN options", () => {
+    expect(() => Article.query().knn({ field: "embedding", queryVector: [] })).toThrow("Query vector is required");
+    expect(() => Article.query().knn({ field: "embedding", queryVector: [1, 0, 0], k: 20, numCandidates: 10 }))
+      .toThrow("numCandidates must be greater than or equal to k");
+  });
+
+  test("should reject count, exists and explain with kNN clauses", () => {
+    const query = Article.query().knn({ field: "embedding", queryVector: [1, 0, 0] });
+
+    expect(() => query.count()).toThrow("kNN clauses are only supported by search");
+    expect(() => query.exists()).toThrow("kNN clauses are only supported by search");
+    expect(() => query.explain("apple")).toThrow("kNN clauses are only supported by search");
+  });
+});
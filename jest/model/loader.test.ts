@@ -0,0 +1,107 @@
+import { ElastickbirdModel } from "../../lib/model/ElastickbirdModel";
+import { ElasticsearchClient } from "../../lib/client/ElasticsearchClient";
+
+const ELASTICSEARCH_URL = (global as any).ELASTICSEARCH_URL as string;
+
+describe("ElastickbirdModel Loader", () => {
+  let User: ElastickbirdModel;
+
+  beforeEach(async () => {
+    ElasticsearchClient.configure({ node: ELASTICSEARCH_URL });
+
+    User = new ElastickbirdModel({
+      alias: "test-loader-users",
+      primaryKeyAttribute: "id",
+      mappings: {
+        properties: {
+          id: { type: "keyword" },
+          name: { type: "keyword" },
+        },
+      },
+      settings: {
+        number_of_shards: 1,
+        number_of_replicas: 0,
+      },
+    });
+
+    await User.truncateIndex();
+
+    const bulk = User.initBulk({ refresh: true });
+    bulk.addIndexOperation({ id: "1", name: "John" });
+    bulk.addIndexOperation({ id: "2", name: "Jane" });
+    bulk.addIndexOperation({ id: "3", name: "Bob" });
+    await bulk.execute();
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    try {
+      const exists = await User.existsIndex();
+      if (exists) {
+        await User.deleteIndex();
+      }
+    } catch (e) {
+      // Ignore cleanup errors
+    }
+    ElasticsearchClient.reset();
+  });
+
+  test("should batch the loads of the same tick into one request", async () => {
+    const getDocuments = jest.spyOn(User, "getDocuments");
+    const loader = User.createLoader();
+
+    const [john, jane, johnAgain, missing] = await Promise.all([
+      loader.load("1"),
+      loader.load("2"),
+      loader.load("1"),
+      loader.load("unknown"),
+    ]);
+
+    expect(john).toEqual({ id: "1", name: "John" });
+    expect(jane).toEqual({ id: "2", name: "Jane" });
+    expect(johnAgain).toBe(john);
+    expect(missing).toBeNull();
+    expect(getDocuments).toHaveBeenCalledTimes(1);
+    expect(getDocuments).toHaveBeenCalledWith(["1", "2", "unknown"]);
+  });
+
+  test("should serve cached documents without a request", async () => {
+    const getDocuments = jest.spyOn(User, "getDocuments");
+    const loader = User.createLoader();
+
+    await loader.loadMany(["1", "2"]);
+    const docs = await loader.loadMany(["2", "1"]);
+
+    expect(docs.map((doc) => doc?.id)).toEqual(["2", "1"]);
+    expect(getDocuments).toHaveBeenCalledTimes(1);
+
+    loader.clear("1").prime("3", { id: "3", name: "Primed" });
+    expect(await loader.load("3")).toEqual({ id: "3", name: "Primed" });
+    await loader.load("1");
+    expect(getDocuments).toHaveBeenCalledTimes(2);
+  });
+
+  test("should split batches by maxBatchSize and skip the cache when disabled", async () => {
+    const getDocuments = jest.spyOn(User, "getDocuments");
+    const loader = User.createLoader({ cache: false, maxBatchSize: 2 });
+
+    await loader.loadMany(["1", "2", "3"]);
+    await loader.load("1");
+
+    expect(getDocuments).toHaveBeenCalledTimes(3);
+    expect(getDocuments).toHaveBeenNthCalledWith(1, ["1", "2"]);
+    expect(getDocuments).toHaveBeenNthCalledWith(2, ["3"]);
+  });
+
+  test("should reject loads on routed models", async () => {
+    const Order = new ElastickbirdModel({
+      alias: "test-loader-orders",
+      routing: "customerId",
+      mappings: { properties: { id: { type: "keyword" }, customerId: { type: "keyword" } } },
+    });
+    const getDocuments = jest.spyOn(Order, "getDocuments");
+
+    await expect(Order.createLoader().load("1")).rejects.toThrow("Routed documents must be requested by payload");
+    expect(getDocuments).not.toHaveBeenCalled();
+  });
+});
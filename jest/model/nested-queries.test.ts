@@ -0,0 +1,110 @@
+import { ElastickbirdModel } from "../../lib/model/ElastickbirdModel";
+import { ElasticsearchClient } from "../../lib/client/ElasticsearchClient";
+
+const ELASTICSEARCH_URL = (global as any).ELASTICSEARCH_URL as string;
+
+describe("ElastickbirdQuery Nested Queries", () => {
+  let Order: ElastickbirdModel;
+
+  beforeEach(async () => {
+    ElasticsearchClient.configure({ node: ELASTICSEARCH_URL });
+
+    Order = new ElastickbirdModel({
+      alias: "test-nested-orders",
+      primaryKeyAttribute: "id",
+      mappings: {
+        properties: {
+          id: { type: "keyword" },
+          status: { type: "keyword" },
+          items: {
+            type: "nested",
+            properties: {
+              sku: { type: "keyword" },
+              quantity: { type: "integer" },
+            },
+          },
+        },
+      },
+      settings: {
+        number_of_shards: 1,
+        number_of_replicas: 0,
+      },
+    });
+
+    await Order.truncateIndex();
+
+    const bulk = Order.initBulk({ refresh: true });
+    bulk.addIndexOperation({ id: "1", status: "paid", items: [{ sku: "pen", quantity: 1 }, { sku: "ink", quantity: 5 }] });
+    bulk.addIndexOperation({ id: "2", status: "paid", items: [{ sku: "pen", quantity: 5 }] });
+    bulk.addIndexOperation({ id: "3", status: "pending", items: [{ sku: "ink", quantity: 2 }] });
+    await bulk.execute();
+  });
+
+  afterEach(async () => {
+    try {
+      const exists = await Order.existsIndex();
+      if (exists) {
+        await Order.deleteIndex();
+      }
+    } catch (e) {
+      // Ignore cleanup errors
+    }
+    ElasticsearchClient.reset();
+  });
+
+  test("should match the clauses on the same nested document", async () => {
+    const results = await Order.query()
+      .addNested("items", (nested) => {
+        nested.filter().addTerm("sku", "pen").addRange("quantity", { gte: 2 });
+      })
+      .search();
+
+    // order 1 has a pen and a quantity >= 2, but not on the same item
+    expect(results.rows.map((row) => row.id)).toEqual(["2"]);
+  });
+
+  test("should combine nested clauses with the other clauses", async () => {
+    const results = await Order.query()
+      .addTerm("status", "paid")
+      .addNested("items", (nested) => {
+        nested.filter().addTerm("sku", "ink");
+      })
+      .search();
+
+    expect(results.rows.map((row) => row.id)).toEqual(["1"]);
+  });
+
+  test("should return the matching nested documents as inner hits", async () => {
+    const results = await Order.query()
+      .addNested("items", (nested) => {
+        nested.filter().addTerm("sku", "ink");
+      }, { innerHits: { name: "inkItems" } })
+      .addSort("id", "asc")
+      .search();
+
+    expect(results.rows.map((row) => row.id)).toEqual(["1", "3"]);
+    expect(results.rows.map((row) => row._innerHits)).toEqual([
+      { inkItems: [{ sku: "ink", quantity: 5 }] },
+      { inkItems: [{ sku: "ink", quantity: 2 }] },
+    ]);
+  });
+
+  test("should build the nested query options", () => {
+    const query = Order.query();
+    query.mustNot().addNested("items", (nested) => {
+      nested.must().addMatch("sku", "pen");
+    }, { scoreMode: "max", innerHits: { sort: [{ quantity: "desc" }], fields: ["sku"] }, ignoreUnmapped: true });
+
+    expect(query.build().query.bool.must_not).toEqual([
+      {
+        nested: {
+          path: "items",
+          query: { bool: { must: [{ match: { "items.sku": "pen" } }] } },
+          score_mode: "max",
+          ignore_unmapped: true,
+          inner_hits: { sort: [{ "items.quantity": "desc" }], _source: ["items.sku"] },
+        },
+      },
+    ]);
+  });
+});
@@ -0,0 +1,128 @@
+import { ElastickbirdModel } from "../../lib/model/ElastickbirdModel";
+import { ElasticsearchClient } from "../../lib/client/ElasticsearchClient";
+import { ElastickBirdSchema } from "../../lib/types";
+
+const ELASTICSEARCH_URL = (global as any).ELASTICSEARCH_URL as string;
+
+const schema: ElastickBirdSchema = {
+  alias: "test-sanitization-users",
+  primaryKeyAttribute: "id",
+  mappings: {
+    properties: {
+      id: { type: "keyword" },
+      name: { type: "keyword" },
+      metadata: { type: "object" },
+      address: {
+        properties: {
+          city: { type: "keyword" },
+          geo: { type: "object", dynamic: "strict", properties: { lat: { type: "float" } } },
+        },
+      },
+      tags: {
+        type: "nested",
+        properties: {
+          name: { type: "keyword" },
+        },
+      },
+    },
+  },
+  settings: {
+    number_of_shards: 1,
+    number_of_replicas: 0,
+  },
+};
+
+describe("ElastickbirdModel Field Sanitization", () => {
+  let User: ElastickbirdModel;
+
+  beforeEach(async () => {
+    ElasticsearchClient.configure({ node: ELASTICSEARCH_URL });
+    User = new ElastickbirdModel(schema);
+    await User.truncateIndex();
+  });
+
+  afterEach(async () => {
+    try {
+      const exists = await User.existsIndex();
+      if (exists) {
+        await User.deleteIndex();
+      }
+    } catch (e) {
+      // Ignore cleanup errors
+    }
+    ElasticsearchClient.reset();
+  });
+
+  describe("sanitize()", () => {
+    test("should strip unmapped fields recursively by default", () => {
+      const { document, errors } = User.sanitize({
+        id: "1",
+        extra: true,
+        address: { city: "Paris", zip: "75001" },
+        tags: [{ name: "a", color: "red" }],
+      });
+
+      expect(document).toEqual({ id: "1", address: { city: "Paris" }, tags: [{ name: "a" }] });
+      expect(errors).toEqual([]);
+    });
+
+    test("should pass objects without properties through", () => {
+      const { document } = User.sanitize({ id: "1", metadata: { source: "import", nested: { a: 1 } } });
+
+      expect(document).toEqual({ id: "1", metadata: { source: "import", nested: { a: 1 } } });
+    });
+
+    test("should reject unmapped fields of strict objects", () => {
+      const { document, errors } = User.sanitize({ id: "1", address: { geo: { lat: 1, lon: 2 } } });
+
+      expect(document).toEqual({ id: "1", address: { geo: { lat: 1 } } });
+      expect(errors).toEqual([
+        { field: "address.geo.lon", rule: "unmapped", message: "Field is not defined in the mappings", value: 2 },
+      ]);
+    });
+
+    test("should keep unmapped fields with the allow policy", () => {
+      const model = new ElastickbirdModel({ ...schema, unmappedFields: "allow" });
+      const { document } = model.sanitize({ id: "1", extra: true, address: { zip: "75001" } });
+
+      expect(document).toEqual({ id: "1", extra: true, address: { zip: "75001" } });
+    });
+  });
+
+  describe("Write Operations", () => {
+    test("should strip unmapped fields on create and update", async () => {
+      await User.createDocument({ id: "1", name: "John", extra: true }, { refresh: true });
+      await User.updateDocument({ id: "1", address: { city: "Paris", zip: "75001" } }, { refresh: true });
+
+      const doc = await User.getDocumentById("1");
+      expect(doc).toEqual({ id: "1", name: "John", address: { city: "Paris" } });
+    });
+
+    test("should fail writes with unmapped fields with the reject policy", async () => {
+      const model = new ElastickbirdModel({ ...schema, unmappedFields: "reject" });
+
+      const result = await model.indexDocument({ id: "1", tags: [{ name: "a", color: "red" }] });
+
+      expect(result.success).toBe(false);
+      expect(result.validationErrors).toEqual([
+        { field: "tags[0].color", rule: "unmapped", message: "Field is not defined in the mappings", value: "red" },
+      ]);
+      expect(await model.documentExists({ id: "1" })).toBe(false);
+    });
+
+    test("should sanitize bulk operations", async () => {
+      const model = new ElastickbirdModel({ ...schema, unmappedFields: "reject" });
+
+      const bulk = model.initBulk({ refresh: true });
+      bulk.addIndexOperation({ id: "1", name: "John" });
+      bulk.addIndexOperation({ id: "2", name: "Jane", extra: true });
+      const result = await bulk.execute();
+
+      expect(result.success).toBe(false);
+      expect(result.validationErrors).toHaveLength(1);
+      expect(result.validationErrors![0]._id).toBe("2");
+      expect(await model.documentExists({ id: "1" })).toBe(true);
+      expect(await model.documentExists({ id: "2" })).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import { ElastickbirdModel } from "../../lib/model/ElastickbirdModel";
+import { ElasticsearchClient } from "../../lib/client/ElasticsearchClient";
+
+const ELASTICSEARCH_URL = (global as any).ELASTICSEARCH_URL as string;
+
+describe("ElastickbirdQuery Scoring", () => {
+  let Article: ElastickbirdModel;
+
+  const ids = (results: { rows: any[] }) => results.rows.map((row) => row.id);
+
+  beforeEach(async () => {
+    ElasticsearchClient.configure({ node: ELASTICSEARCH_URL });
+
+    Article = new ElastickbirdModel({
+      alias: "test-scoring-articles",
+      primaryKeyAttribute: "id",
+      mappings: {
+        properties: {
+          id: { type: "keyword" },
+          title: { type: "text" },
+          likes: { type: "integer" },
+          featured: { type: "boolean" },
+          publishedAt: { type: "date" },
+        },
+      },
+      settings: {
+        number_of_shards: 1,
+        number_of_replicas: 0,
+      },
+      sortRules: {
+        popular: (query: any, order: string) => {
+          query
+            .scoring((scoring: any) => scoring.fieldValueFactor("likes", { modifier: "log1p" }).boostMode("replace"))
+            .addSort("_score", order);
+        },
+      },
+    });
+
+    await Article.truncateIndex();
+
+    const bulk = Article.initBulk({ refresh: true });
+    bulk.addIndexOperation({ id: "old", title: "elasticsearch tips", likes: 500, featured: false, publishedAt: "2020-01-01" });
+    bulk.addIndexOperation({ id: "recent", title: "elasticsearch news", likes: 10, featured: false, publishedAt: "2023-06-01" });
+    bulk.addIndexOperation({ id: "featured", title: "elasticsearch guide", likes: 50, featured: true, publishedAt: "2022-01-01" });
+    await bulk.execute();
+  });
+
+  afterEach(async () => {
+    try {
+      const exists = await Article.existsIndex();
+      if (exists) {
+        await Article.deleteIndex();
+      }
+    } catch (e) {
+      // Ignore cleanup errors
+    }
+    ElasticsearchClient.reset();
+  });
+
+  test("should rank by recency with a decay function", async () => {
+    const results = await Article.query()
+      .scoring((scoring) => scoring
+        .decay("gauss", "publishedAt", { origin: "2023-06-01", scale: "180d" })
+        .boostMode("replace"))
+      .search();
+
+    expect(ids(results)).toEqual(["recent", "featured", "old"]);
+  });
+
+  test("should rank by popularity with field value factor", async () => {
+    const results = await Article.query()
+      .scoring((scoring) => scoring.fieldValueFactor("likes", { modifier: "log1p" }).boostMode("replace"))
+      .search({ metadata: ["_score"] });
+
+    expect(ids(results)).toEqual(["old", "featured", "recent"]);
+    expect(results.rows[0]._score).toBeCloseTo(Math.log10(501), 3);
+  });
+
+  test("should boost the documents matching a filter and combine the functions", async () => {
+    const results = await Article.query()
+      .scoring((scoring) => scoring
+        .weight(10, (query) => query.addTerm("featured", true))
+        .weight(1)
+        .scoreMode("sum")
+        .boostMode("replace"))
+      .search({ metadata: ["_score"] });
+
+    expect(ids(results)[0]).toBe("featured");
+    expect(results.rows[0]._score).toBe(11);
+    expect(results.rows[1]._score).toBe(1);
+  });
+
+  test("should compute the score with a script and exclude low scores", async () => {
+    const query = Article.query();
+    query.must().addMatch("title", "elasticsearch");
+    query.scoring((scoring) => scoring
+      .scriptScore({ source: "doc['likes'].value * params.factor", params: { factor: 2 } })
+      .minScore(50));
+
+    const results = await query.search({ metadata: ["_score"] });
+
+    expect(ids(results)).toEqual(["old", "featured"]);
+    expect(results.rows[0]._score).toBe(1000);
+  });
+
+  test("should reject function options with a script score only", () => {
+    const query = Article.query().scoring((scoring) => scoring.scriptScore("_score * 2").boostMode("sum"));
+
+    expect(() => query.build()).toThrow("scoreMode, boostMode and maxBoost require a score function");
+  });
+
+  test("should return the same random order for the same seed", async () => {
+    const search = () => Article.query().scoring((scoring) => scoring.randomScore({ seed: 42 }).boostMode("replace")).search();
+
+    expect(ids(await search())).toEqual(ids(await search()));
+  });
+
+  test("should work with sort rules and track the scores of other sorts", async () => {
+    const byRule = await Article.query().applySortRule("-popular").search();
+    expect(ids(byRule)).toEqual(["old", "featured", "recent"]);
+
+    const query = Article.query()
+      .scoring((scoring) => scoring.weight(2).boostMode("replace"))
+      .addSort("publishedAt", "desc");
+    expect(query.build().track_scores).toBe(true);
+
+    const results = await query.search({ metadata: ["_score"] });
+    expect(ids(results)).toEqual(["recent", "featured", "old"]);
+    expect(results.rows[0]._score).toBe(2);
+  });
+});
@@ -1,33 +1,36 @@
 import { ElastickbirdModel } from "../../lib/model/ElastickbirdModel";
 import { ElasticsearchClient } from "../../lib/client/ElasticsearchClient";
+import { InvalidCursorError } from "../../lib/model/errors";
 
 const ELASTICSEARCH_URL = (global as any).ELASTICSEARCH_URL as string;
 
 describe("ElastickbirdModel Search Operations", () => {
   let User: ElastickbirdModel;
 
+  const userSchema = {
+    alias: "test-search-users",
+    primaryKeyAttribute: "id",
+    mappings: {
+      properties: {
+        id: { type: "keyword" },
+        name: { type: "text" },
+        email: { type: "keyword" },
+        age: { type: "integer" },
+        status: { type: "keyword" },
+        createdAt: { type: "date" },
+        tags: { type: "keyword" },
+      },
+    },
+    settings: {
+      number_of_shards: 1,
+      number_of_replicas: 0,
+    },
+  };
+
   beforeEach(async () => {
     ElasticsearchClient.configure({ node: ELASTICSEARCH_URL });
 
-    User = new ElastickbirdModel({
-      alias: "test-search-users",
-      primaryKeyAttribute: "id",
-      mappings: {
-        properties: {
-          id: { type: "keyword" },
-          name: { type: "text" },
-          email: { type: "keyword" },
-          age: { type: "integer" },
-          status: { type: "keyword" },
-          createdAt: { type: "date" },
-          tags: { type: "keyword" },
-        },
-      },
-      settings: {
-        number_of_shards: 1,
-        number_of_replicas: 0,
-      },
-    });
+    User = new ElastickbirdModel(userSchema);
 
     await User.createIndexIfNotExists();
 
@@ -194,6 +197,249 @@ describe("ElastickbirdModel Search Operations", () => {
     });
   });
 
+  describe("Hit Metadata", () => {
+    test("should return whole hits with the hit row format", async () => {
+      const results = await User.query()
+        .addTerm("status", "active")
+        .addSort("age", "asc")
+        .search({ rowFormat: "hit" });
+
+      expect(results.rows).toHaveLength(2);
+      expect(results.rows[0]._id).toBe("2");
+      expect(results.rows[0]._index).toContain("test-search-users");
+      expect(results.rows[0]._source.name).toBe("Jane Smith");
+      expect(results.rows[0].sort).toEqual([25]);
+    });
+
+    test("should merge the selected metadata into source rows", async () => {
+      const results = await User.search(
+        { query: { match: { name: "john" } } },
+        { metadata: ["_id", "_score"] }
+      );
+
+      expect(results.rows.length).toBeGreaterThan(0);
+      expect(results.rows[0]._id).toBe(results.rows[0].id);
+      expect(results.rows[0]._score).toBeGreaterThan(0);
+      expect(results.rows[0]).not.toHaveProperty("_index");
+    });
+  });
+
+  describe("Highlighting", () => {
+    test("should return the highlight fragments next to each row", async () => {
+      const results = await User.query()
+        .addMatch("name", "john")
+        .setHighlight(["name"], { preTags: "<b>", postTags: "</b>" })
+        .search();
+
+      expect(results.rows.length).toBeGreaterThan(0);
+      expect(results.highlights).toHaveLength(results.rows.length);
+      expect(results.highlights![0].name[0]).toContain("<b>John</b>");
+    });
+
+    test("should build the highlight options", () => {
+      const query = User.query().setHighlight(
+        { name: { numberOfFragments: 0 } },
+        { fragmentSize: 50, numberOfFragments: 2, requireFieldMatch: false }
+      );
+
+      expect(query.build().highlight).toEqual({
+        fragment_size: 50,
+        number_of_fragments: 2,
+        require_field_match: false,
+        fields: { name: { number_of_fragments: 0 } },
+      });
+    });
+  });
+
+  describe("Iteration", () => {
+    test("should iterate over all the matching documents", async () => {
+      const ids: string[] = [];
+      for await (const user of User.query().addSort("age", "asc").setSize(1).iterate({ batchSize: 2 })) {
+        ids.push(user.id);
+      }
+
+      expect(ids).toEqual(["2", "1", "3"]);
+    });
+
+    test("should iterate over pages", async () => {
+      const pages: any[][] = [];
+      for await (const page of User.query().addTerm("status", "active").iteratePages({ batchSize: 1 })) {
+        pages.push(page);
+      }
+
+      expect(pages).toHaveLength(2);
+      expect(pages.every((page) => page.length === 1)).toBe(true);
+    });
+
+    test("should close the point in time on early break", async () => {
+      const closePointInTime = jest.spyOn(User, "closePointInTime");
+
+      for await (const user of User.query().iterate({ batchSize: 1 })) {
+        expect(user).toBeDefined();
+        break;
+      }
+
+      expect(closePointInTime).toHaveBeenCalledTimes(1);
+      closePointInTime.mockRestore();
+    });
+  });
+
+  describe("Pagination Cursors", () => {
+    let OpaqueUser: ElastickbirdModel;
+
+    beforeEach(() => {
+      OpaqueUser = new ElastickbirdModel({ ...userSchema, cursor: { format: "opaque" } });
+    });
+
+    test("should page with opaque cursors", async () => {
+      const page1 = await OpaqueUser.query().addSort("age", "asc").setSize(2).search();
+      expect(page1.rows.map((row) => row.id)).toEqual(["2", "1"]);
+      expect(page1.cursor).toBeDefined();
+      expect(page1.search_after).toBeUndefined();
+
+      const page2 = await OpaqueUser.query().addSort("age", "asc").setSize(2).setCursor(page1.cursor!).search();
+      expect(page2.rows.map((row) => row.id)).toEqual(["3"]);
+      expect(page2.cursor).toBeUndefined();
+    });
+
+    test("should keep the sort value types and values with the delimiter", async () => {
+      await User.indexDocument({ id: "4", name: "Tilde~User", email: "a~b@example.com", age: 35 }, { refresh: true });
+
+      const page1 = await OpaqueUser.query().addSort("age", "desc").addSort("email", "asc").setSize(1).search();
+      expect(page1.rows[0].id).toBe("4");
+
+      const query = OpaqueUser.query().addSort("age", "desc").addSort("email", "asc").setSize(1).setCursor(page1.cursor!);
+      expect(query.build().search_after).toEqual([35, "a~b@example.com"]);
+
+      const page2 = await query.search();
+      expect(page2.rows[0].id).toBe("3");
+    });
+
+    test("should reject tampered signed cursors", async () => {
+      const SignedUser = new ElastickbirdModel({ ...userSchema, cursor: { format: "opaque", secret: "s3cret" } });
+
+      const page = await SignedUser.query().addSort("age", "asc").setSize(1).search();
+      const [body, signature] = page.cursor!.split(".");
+      expect(signature).toBeDefined();
+      expect(() => SignedUser.query().setCursor(page.cursor!)).not.toThrow();
+
+      const forged = Buffer.from(JSON.stringify({ v: 1, s: [99] })).toString("base64url");
+      expect(() => SignedUser.query().setCursor(`${forged}.${signature}`)).toThrow(InvalidCursorError);
+      expect(() => SignedUser.query().setCursor(body)).toThrow(InvalidCursorError);
+      expect(() => OpaqueUser.query().setCursor("not a cursor")).toThrow(InvalidCursorError);
+    });
+
+    test("should carry the point in time in the cursor", async () => {
+      const pitId = await User.openPointInTime();
+      try {
+        const page1 = await OpaqueUser.query().addSort("age", "asc").setSize(1).setPointInTime(pitId).search();
+        const query = OpaqueUser.query().addSort("age", "asc").setSize(1).setCursor(page1.cursor!);
+
+        expect(query.build().pit).toBeDefined();
+        const page2 = await query.search();
+        expect(page2.rows[0].id).toBe("1");
+      } finally {
+        await User.closePointInTime(pitId);
+      }
+    });
+
+    test("should default to the legacy delimiter format", async () => {
+      const page1 = await User.query().addSort("age", "asc").addSort("id", "asc").setSize(1).search();
+      expect(page1.search_after).toBe("25~2");
+      expect(page1.cursor).toBe("25~2");
+
+      const page2 = await User.query().addSort("age", "asc").addSort("id", "asc").setSize(1).setCursor(page1.cursor!).search();
+      expect(page2.rows[0].id).toBe("1");
+
+      const page3 = await User.query().addSort("age", "asc").addSort("id", "asc").setSize(1).setSearchAfter(page2.search_after!).search();
+      expect(page3.rows[0].id).toBe("3");
+    });
+  });
+
+  describe("Count, Explain and Profile", () => {
+    test("should count the matching documents", async () => {
+      expect(await User.query().addTerm("status", "active").count()).toBe(2);
+      expect(await User.query().count()).toBe(3);
+      expect(await User.count({ query: { term: { status: "inactive" } } })).toBe(1);
+    });
+
+    test("should check if any document matches", async () => {
+      expect(await User.query().addTerm("status", "active").exists()).toBe(true);
+      expect(await User.query().addTerm("status", "deleted").exists()).toBe(false);
+    });
+
+    test("should explain the score of a document", async () => {
+      const result = await User.query().addMatch("name", "john").explain("1");
+
+      expect(result._id).toBe("1");
+      expect(result.matched).toBe(true);
+      expect(result.explanation!.value).toBeGreaterThan(0);
+      expect(result.explanation!.details.length).toBeGreaterThan(0);
+
+      expect((await User.query().addMatch("name", "john").explain("2")).matched).toBe(false);
+
+      const missing = await User.query().explain("unknown");
+      expect(missing).toMatchObject({ _id: "unknown", matched: false, explanation: null });
+    });
+
+    test("should profile the search", async () => {
+      const results = await User.query().addTerm("status", "active").profile();
+
+      expect(results.rows).toHaveLength(2);
+      expect(results.profile.shards).toHaveLength(1);
+      expect(results.profile.shards[0].queries[0].type).toBeDefined();
+      expect(results.profile.shards[0].timeMs).toBeGreaterThan(0);
+    });
+  });
+
+  describe("Full-text Queries", () => {
+    const ids = (results: { rows: any[] }) => results.rows.map((row) => row.id).sort();
+
+    test("should match several fields with multi match", async () => {
+      const query = User.query();
+      query.must().addMultiMatch("john johnson", { name: 3, email: 1 }, { type: "best_fields", operator: "or" });
+
+      expect(ids(await query.search())).toEqual(["1", "3"]);
+    });
+
+    test("should match phrases and phrase prefixes", async () => {
+      expect(ids(await User.query().addMatchPhrase("name", "john doe").search())).toEqual(["1"]);
+      expect(ids(await User.query().addMatchPhrase("name", "doe john").search())).toEqual([]);
+      expect(ids(await User.query().addMatchPhrasePrefix("name", "jane sm").search())).toEqual(["2"]);
+    });
+
+    test("should match term-level patterns", async () => {
+      expect(ids(await User.query().addPrefix("email", "JA", { caseInsensitive: true }).search())).toEqual(["2"]);
+      expect(ids(await User.query().addWildcard("email", "*o*@example.com").search())).toEqual(["1", "3"]);
+      expect(ids(await User.query().addRegexp("tags", "(designer|manager)").search())).toEqual(["2", "3"]);
+      expect(ids(await User.query().addFuzzy("email", "jon@example.com", { fuzziness: 1 }).search())).toEqual(["1"]);
+    });
+
+    test("should match ids and terms sets at every occurrence level", async () => {
+      const shouldQuery = User.query();
+      shouldQuery.should().addIds(["1", "3"]);
+      expect(ids(await shouldQuery.search())).toEqual(["1", "3"]);
+
+      const mustNotQuery = User.query();
+      mustNotQuery.mustNot().addIds([1]);
+      expect(ids(await mustNotQuery.search())).toEqual(["2", "3"]);
+
+      const results = await User.query()
+        .addTermsSet("tags", ["developer", "javascript", "product"], { minimumShouldMatchScript: "2" })
+        .search();
+      expect(ids(results)).toEqual(["1"]);
+    });
+
+    test("should reject unknown options", () => {
+      expect(() => User.query().addPrefix("email", "j", { case_insensitive: true } as any))
+        .toThrow("Unknown prefix option: case_insensitive");
+      expect(() => User.query().addMultiMatch("john", ["name"], { fields: ["email"] } as any))
+        .toThrow("Unknown multiMatch option: fields");
+      expect(() => User.query().addTermsSet("tags", ["a"], {}))
+        .toThrow("minimumShouldMatchField or minimumShouldMatchScript is required");
+    });
+  });
+
   describe("Boolean Queries", () => {
     test("should use must query", async () => {
       const query = User.query();
@@ -0,0 +1,126 @@
+import { ElastickbirdModel } from "../../lib/model/ElastickbirdModel";
+import { ElasticsearchClient } from "../../lib/client/ElasticsearchClient";
+
+const ELASTICSEARCH_URL = (global as any).ELASTICSEARCH_URL as string;
+
+describe("ElastickbirdModel Validation", () => {
+  let User: ElastickbirdModel;
+
+  beforeEach(async () => {
+    ElasticsearchClient.configure({ node: ELASTICSEARCH_URL });
+
+    User = new ElastickbirdModel({
+      alias: "test-validation-users",
+      primaryKeyAttribute: "id",
+      mappings: {
+        properties: {
+          id: { type: "keyword" },
+          email: { type: "keyword" },
+          age: { type: "integer" },
+          createdAt: { type: "date" },
+          address: {
+            properties: {
+              zip: { type: "integer" },
+            },
+          },
+        },
+      },
+      settings: {
+        number_of_shards: 1,
+        number_of_replicas: 0,
+      },
+      validation: {
+        required: ["id", "email"],
+        validators: {
+          email: (value: string) => !value || value.includes("@") || "Invalid email",
+        },
+      },
+    });
+
+    await User.truncateIndex();
+  });
+
+  afterEach(async () => {
+    try {
+      const exists = await User.existsIndex();
+      if (exists) {
+        await User.deleteIndex();
+      }
+    } catch (e) {
+      // Ignore cleanup errors
+    }
+    ElasticsearchClient.reset();
+  });
+
+  describe("Single Document Operations", () => {
+    test("should index a valid document", async () => {
+      const result = await User.indexDocument({ id: "1", email: "john@example.com", age: 30 });
+
+      expect(result.success).toBe(true);
+      expect(result.validationErrors).toBeUndefined();
+    });
+
+    test("should reject mapped type mismatches before sending the document", async () => {
+      const result = await User.indexDocument({
+        id: "1",
+        email: "john@example.com",
+        age: "thirty",
+        createdAt: "not a date",
+        address: { zip: "abc" },
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.validationErrors).toEqual([
+        { field: "age", rule: "type", message: "Expected a value of type integer", value: "thirty" },
+        { field: "createdAt", rule: "type", message: "Expected a value of type date", value: "not a date" },
+        { field: "address.zip", rule: "type", message: "Expected a value of type integer", value: "abc" },
+      ]);
+
+      await User.refreshIndex();
+      expect(await User.documentExists({ id: "1" })).toBe(false);
+    });
+
+    test("should report required fields and custom validators", async () => {
+      const result = await User.createDocument({ id: "1", email: "john" });
+
+      expect(result.success).toBe(false);
+      expect(result.validationErrors).toEqual([
+        { field: "email", rule: "custom", message: "Invalid email", value: "john" },
+      ]);
+
+      const missing = await User.createDocument({ id: "1" });
+      expect(missing.validationErrors).toEqual([
+        { field: "email", rule: "required", message: "Field is required" },
+      ]);
+    });
+
+    test("should only validate the fields present on updates", async () => {
+      await User.indexDocument({ id: "1", email: "john@example.com" });
+
+      const valid = await User.updateDocument({ id: "1", age: 31 });
+      expect(valid.success).toBe(true);
+
+      const invalid = await User.updateDocument({ id: "1", age: "old" });
+      expect(invalid.success).toBe(false);
+      expect(invalid.validationErrors?.[0].field).toBe("age");
+    });
+  });
+
+  describe("Bulk Operations", () => {
+    test("should leave invalid documents out and report them", async () => {
+      const bulk = User.initBulk();
+      bulk.addIndexOperation({ id: "1", email: "john@example.com", age: 30 });
+      bulk.addIndexOperation({ id: "2", email: "jane@example.com", age: "twenty" });
+      bulk.addUpdateOperation({ id: "1", email: "john" });
+
+      const result = await bulk.execute();
+
+      expect(result.success).toBe(false);
+      expect(result.total).toBe(1);
+      expect(result.validationErrors).toEqual([
+        { _id: "2", operation: "index", errors: [expect.objectContaining({ field: "age" })] },
+        { _id: "1", operation: "update", errors: [expect.objectContaining({ field: "email" })] },
+      ]);
+    });
+  });
+});
@@ -1,5 +1,11 @@
 import { DOC_OPERATION_TYPES, DocOperationType } from '../utils/Constants';
-import { BulkOperationResult } from '../types';
+import {
+  BulkOperationItem,
+  BulkOperationResult,
+  BulkValidationError,
+  FieldValidationError,
+  SanitizeResult
+} from '../types';
 import { 
   BulkOperationInBatchesResultInstance,
   createBulkOperationResult,
@@ -7,8 +13,11 @@ import {
 } from '../utils/ResponseResults';
 import { ElasticsearchClient } from '../client/ElasticsearchClient';
 
-interface ElasticsearchBulkOptions {
-  getId: (payload: any) => string | number;
+interface ElasticsearchBulkOptions<TDoc = any> {
+  getId: (payload: Partial<TDoc>) => string | number;
+  sanitize?: (payload: Partial<TDoc>) => SanitizeResult<TDoc>;
+  validate?: (payload: Partial<TDoc>, partial: boolean) => FieldValidationError[];
+  hooks?: BulkHooks<TDoc>;
   schema: {
     alias: string;
     routing?: string;
@@ -19,9 +28,18 @@ interface ElasticsearchBulkOptions {
   refresh?: boolean;
 }
 
-export class ElastickbirdBulk {
-  private operations: any[] = [];
-  private getId: (payload: any) => string | number;
+export interface BulkHooks<TDoc = any> {
+  pre: (items: BulkOperationItem<TDoc>[]) => Promise<BulkOperationItem<TDoc>[]>;
+  post: (items: BulkOperationItem<TDoc>[], result: BulkOperationResult) => Promise<void>;
+}
+
+export class ElastickbirdBulk<TDoc = any> {
+  private operations: BulkOperationItem<TDoc>[] = [];
+  private getId: (payload: Partial<TDoc>) => string | number;
+  private sanitize?: (payload: Partial<TDoc>) => SanitizeResult<TDoc>;
+  private validate?: (payload: Partial<TDoc>, partial: boolean) => FieldValidationError[];
+  private validationErrors: BulkValidationError[] = [];
+  private hooks?: BulkHooks<TDoc>;
   private schema: {
     alias: string;
     routing?: string;
@@ -35,12 +53,18 @@ export class ElastickbirdBulk {
 
   constructor({ 
     getId, 
+    sanitize,
+    validate,
+    hooks,
     schema, 
     batchMode = false, 
     batchSize = 10000, 
     refresh = false 
-  }: ElasticsearchBulkOptions) {
+  }: ElasticsearchBulkOptions<TDoc>) {
     this.getId = getId;
+    this.sanitize = sanitize;
+    this.validate = validate;
+    this.hooks = hooks;
     this.refresh = refresh;
     this.batchMode = batchMode;
     this.batchSize = batchSize;
@@ -55,7 +79,7 @@ export class ElastickbirdBulk {
   /**
    * Private Methods
    */
-  private addOperationInternal(operation: DocOperationType, payload: any): void {
+  private addOperationInternal(operation: DocOperationType, payload: Partial<TDoc>): void {
     // auto generate id through primary key attribute defined in schema
     const _id = this.getId(payload);
     if (!_id) return;
@@ -64,19 +88,45 @@ export class ElastickbirdBulk {
       throw new Error(`Invalid Elasticsearch operation type: ${operation}`);
     }
 
-    if (operation === DOC_OPERATION_TYPES.UPDATE) {
-      payload = { doc: payload };
-    }
-
-    const operationRequest: any = { _index: this.schema.alias, _id };
-    this.setRouting(operationRequest, payload);
-    this.operations.push({ [operation]: operationRequest }, payload);
+    const item: BulkOperationItem<TDoc> = { operation, _id, document: payload };
+    this.setRouting(item, payload);
+    this.operations.push(item);
   }
 
-  private async executeInternal(operations: any[]): Promise<any> {
+  private async executeInternal(items: BulkOperationItem<TDoc>[]): Promise<any> {
+    if (this.hooks) items = await this.hooks.pre(items);
+
+    const operations: any[] = [];
+    for (const { operation, _id, routing, document: payload } of items) {
+      const operationRequest: any = { _index: this.schema.alias, _id };
+      if (routing) operationRequest.routing = routing;
+
+      // delete actions have no source line to sanitize or validate
+      if (operation === DOC_OPERATION_TYPES.DELETE) {
+        operations.push({ [operation]: operationRequest });
+        continue;
+      }
+
+      const { document, errors } = this.sanitize?.(payload) || { document: payload, errors: [] };
+      errors.push(...(this.validate?.(document, operation === DOC_OPERATION_TYPES.UPDATE) || []));
+
+      // invalid documents are left out of the request and reported in the results
+      if (errors.length) {
+        this.validationErrors.push({ _id, operation, errors });
+        continue;
+      }
+
+      operations.push(
+        { [operation]: operationRequest },
+        operation === DOC_OPERATION_TYPES.UPDATE ? { doc: document } : document
+      );
+    }
     if (!operations.length) return;
+
     const client = ElasticsearchClient.getClient();
-    return await client.bulk({ operations, refresh: this.refresh });
+    const response = await client.bulk({ operations, refresh: this.refresh });
+    if (this.hooks) await this.hooks.post(items, createBulkOperationResult(response));
+    return response;
   }
 
   private setRouting(request: any, payload: any): void {
@@ -101,7 +151,7 @@ export class ElastickbirdBulk {
   /**
    * Protected methods
    */
-  protected addOperations(operation: DocOperationType, dataArr: any[]): void {
+  protected addOperations(operation: DocOperationType, dataArr: Partial<TDoc>[]): void {
     dataArr.forEach(data => this.addOperationInternal(operation, data));
   }
 
@@ -109,7 +159,12 @@ export class ElastickbirdBulk {
     if (!this.bulkOperationInBatchesResult) {
       throw new Error('Bulk operation in batches result not initialized');
     }
-    return this.bulkOperationInBatchesResult.getResults();
+    return this.addValidationErrors(this.bulkOperationInBatchesResult.getResults());
+  }
+
+  protected addValidationErrors(results: BulkOperationResult): BulkOperationResult {
+    if (!this.validationErrors.length) return results;
+    return { ...results, success: false, validationErrors: [...this.validationErrors] };
   }
 
   protected async executeInBatches(): Promise<void> {
@@ -118,7 +173,7 @@ export class ElastickbirdBulk {
       this.bulkOperationInBatchesResult.addResult(response);
     }
     
-    const batch = this.operations.splice(0, this.batchSize * 2);
+    const batch = this.operations.splice(0, this.batchSize);
     if (!batch.length) {
       // if there are no more operations, resolve the executing promise
       return;
@@ -137,7 +192,7 @@ export class ElastickbirdBulk {
    * @param operation - The operation type
    * @param data - The document data
    */
-  addOperation(operation: DocOperationType, data: any): void {
+  addOperation(operation: DocOperationType, data: Partial<TDoc>): void {
     this.addOperationInternal(operation, data);
   }
 
@@ -145,7 +200,7 @@ export class ElastickbirdBulk {
    * Add operation of type index
    * @param data - The document data
    */
-  addIndexOperation(data: any): void {
+  addIndexOperation(data: TDoc): void {
     this.addOperationInternal(DOC_OPERATION_TYPES.INDEX, data);
   }
 
@@ -153,7 +208,7 @@ export class ElastickbirdBulk {
    * Add operation of type create
    * @param data - The document data
    */
-  addCreateOperation(data: any): void {
+  addCreateOperation(data: TDoc): void {
     this.addOperationInternal(DOC_OPERATION_TYPES.CREATE, data);
   }
 
@@ -161,7 +216,7 @@ export class ElastickbirdBulk {
    * Add operation of type update
    * @param data - The document data
    */
-  addUpdateOperation(data: any): void {
+  addUpdateOperation(data: Partial<TDoc>): void {
     this.addOperationInternal(DOC_OPERATION_TYPES.UPDATE, data);
   }
 
@@ -176,6 +231,6 @@ export class ElastickbirdBulk {
     }
     
     const response = await this.executeInternal(this.operations);
-    return createBulkOperationResult(response);
+    return this.addValidationErrors(createBulkOperationResult(response));
   }
 } 
\ No newline at end of file
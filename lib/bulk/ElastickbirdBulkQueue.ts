@@ -1,9 +1,12 @@
-import { ElastickbirdBulk } from './ElastickbirdBulk';
+import { BulkHooks, ElastickbirdBulk } from './ElastickbirdBulk';
 import { DocOperationType } from '../utils/Constants';
-import { BulkOperationResult } from '../types';
+import { BulkOperationResult, FieldValidationError, SanitizeResult } from '../types';
 
-interface ElasticsearchBulkQueueOptions {
-  getId: (payload: any) => string | number;
+interface ElasticsearchBulkQueueOptions<TDoc = any> {
+  getId: (payload: Partial<TDoc>) => string | number;
+  sanitize?: (payload: Partial<TDoc>) => SanitizeResult<TDoc>;
+  validate?: (payload: Partial<TDoc>, partial: boolean) => FieldValidationError[];
+  hooks?: BulkHooks<TDoc>;
   schema: {
     alias: string;
     routing?: string;
@@ -13,11 +16,12 @@ interface ElasticsearchBulkQueueOptions {
   refresh?: boolean;
 }
 
-export class ElastickbirdBulkQueue extends ElastickbirdBulk {
+export class ElastickbirdBulkQueue<TDoc = any> extends ElastickbirdBulk<TDoc> {
   private executingPromise: Promise<void> | null = null;
   private resolveExecutingPromise?: () => void;
+  private executionError: unknown = null;
 
-  constructor(options: ElasticsearchBulkQueueOptions) {
+  constructor(options: ElasticsearchBulkQueueOptions<TDoc>) {
     super({ ...options, batchMode: true });
   }
 
@@ -33,7 +37,8 @@ export class ElastickbirdBulkQueue extends ElastickbirdBulk {
       try {
         await this.executeInBatches();
       } catch (error) {
-        console.error("Error executing bulk queue operations", { error });
+        // reported by waitForCompletion, e.g. a batch aborted by a bulk hook
+        this.executionError = error;
       } finally {
         this.onOperationsFinished();
       }
@@ -53,7 +58,7 @@ export class ElastickbirdBulkQueue extends ElastickbirdBulk {
    * @param operation - The operation type
    * @param dataArr - Array of document data
    */
-  addOperationsToQueue(operation: DocOperationType, dataArr: any[]): void {
+  addOperationsToQueue(operation: DocOperationType, dataArr: Partial<TDoc>[]): void {
     this.addOperations(operation, dataArr);
     this.onOperationsAdded();
   }
@@ -61,10 +66,16 @@ export class ElastickbirdBulkQueue extends ElastickbirdBulk {
   /**
    * Wait for all operations to complete
    * @returns Promise<BulkOperationResult>
+   * @throws The error of a failed batch, e.g. a `HookAbortError`
    */
   async waitForCompletion(): Promise<BulkOperationResult> {
     // wait for all the ongoing batches promises to resolve
     await this.executingPromise;
+    if (this.executionError) {
+      const error = this.executionError;
+      this.executionError = null;
+      throw error;
+    }
     return this.getBulkResults();
   }
 } 
\ No newline at end of file
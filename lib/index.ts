@@ -4,13 +4,20 @@ export default Elastickbird;
 
 export { ElastickbirdModel } from './model/ElastickbirdModel';
 export { ElastickbirdQuery } from './query/ElastickbirdQuery';
+export { ElastickbirdAggregations } from './query/ElastickbirdAggregations';
+export { ElastickbirdScoring } from './query/ElastickbirdScoring';
 export { ElastickbirdBulk } from './bulk/ElastickbirdBulk';
 export { ElastickbirdBulkQueue } from './bulk/ElastickbirdBulkQueue';
+export { ElastickbirdLoader } from './loader/ElastickbirdLoader';
 export { ElastickbirdFilterRules } from './utils/ElastickbirdFilterRules';
+export { ElastickbirdComponentTemplate } from './template/ElastickbirdComponentTemplate';
+export { f } from './schema/fields';
 export { ElasticsearchClient } from './client/ElasticsearchClient';
+export { MappingConflictError, HookAbortError, InvalidCursorError } from './model/errors';
 export { 
   DocumentOperationResult, 
-  ByQueryOperationResult 
+  ByQueryOperationResult,
+  isDocumentOperationResult
 } from './utils/ResponseResults';
 
 // Types
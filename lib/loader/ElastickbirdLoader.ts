@@ -0,0 +1,137 @@
+import { LoaderOptions } from '../types';
+import { ElastickbirdModel } from '../model/ElastickbirdModel';
+
+interface PendingLoad<TDoc> {
+  resolve: (document: TDoc | null) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * ElastickbirdLoader - Batches the document loads requested within the same tick into a single `_mget`.
+ * @description IDs are deduplicated and, with the cache enabled, every ID is requested only once for the
+ * lifetime of the loader. Create one loader per request scope (e.g. per GraphQL request) so the cache
+ * doesn't outlive the request. IDs can't be routed, so loads are rejected on models with routing, as in `getDocuments`.
+ */
+export class ElastickbirdLoader<TDoc = any> {
+  private model: ElastickbirdModel<TDoc>;
+  private cache: boolean;
+  private maxBatchSize: number;
+  private routed: boolean;
+  private cachedLoads: Map<string, Promise<TDoc | null>> = new Map();
+  private queue: Map<string, PendingLoad<TDoc>[]> = new Map();
+
+  constructor({ model, cache = true, maxBatchSize = 1000 }: LoaderOptions & { model: ElastickbirdModel<TDoc> }) {
+    this.model = model;
+    this.cache = cache;
+    this.maxBatchSize = maxBatchSize;
+    this.routed = !!model.getRouting() || !!Object.keys(model.getRoutingRules()).length;
+  }
+
+  /**
+   * Private Methods
+   */
+  private scheduleDispatch(): void {
+    // dispatch after the promise jobs of the current tick, so loads chained on resolved promises join the batch
+    Promise.resolve().then(() => process.nextTick(() => this.dispatch()));
+  }
+
+  private dispatch(): void {
+    const queue = this.queue;
+    this.queue = new Map();
+
+    const ids = Array.from(queue.keys());
+    for (let i = 0; i < ids.length; i += this.maxBatchSize) {
+      this.dispatchBatch(ids.slice(i, i + this.maxBatchSize), queue);
+    }
+  }
+
+  private async dispatchBatch(ids: string[], queue: Map<string, PendingLoad<TDoc>[]>): Promise<void> {
+    try {
+      const results = await this.model.getDocuments(ids);
+      results.forEach(({ _id, found, document, error }) => {
+        const pendingLoads = queue.get(_id as string) || [];
+        if (error) {
+          this.cachedLoads.delete(_id as string);
+          pendingLoads.forEach(({ reject }) => reject(new Error(error)));
+        } else {
+          pendingLoads.forEach(({ resolve }) => resolve(found ? document as TDoc : null));
+        }
+      });
+    } catch (error: any) {
+      // failed loads are not cached, so they can be retried
+      ids.forEach(id => {
+        this.cachedLoads.delete(id);
+        (queue.get(id) || []).forEach(({ reject }) => reject(error));
+      });
+    }
+  }
+
+  /**
+   * Public methods
+   */
+
+  /**
+   * Loads a document by ID, batched with the other loads of the same tick
+   * @param id - The document ID
+   * @returns The document, or null if it doesn't exist
+   */
+  load(id: string | number): Promise<TDoc | null> {
+    if (this.routed) return Promise.reject(new Error('Routed documents must be requested by payload'));
+
+    const key = String(id);
+    const cachedLoad = this.cache ? this.cachedLoads.get(key) : undefined;
+    if (cachedLoad) return cachedLoad;
+
+    const load = new Promise<TDoc | null>((resolve, reject) => {
+      if (!this.queue.size) this.scheduleDispatch();
+      const pendingLoads = this.queue.get(key) || [];
+      pendingLoads.push({ resolve, reject });
+      this.queue.set(key, pendingLoads);
+    });
+
+    if (this.cache) this.cachedLoads.set(key, load);
+    return load;
+  }
+
+  /**
+   * Loads multiple documents by ID
+   * @param ids - The document IDs
+   * @returns The documents in the same order, null for the ones that don't exist
+   */
+  loadMany(ids: Array<string | number>): Promise<Array<TDoc | null>> {
+    return Promise.all(ids.map(id => this.load(id)));
+  }
+
+  /**
+   * Removes a document from the cache, e.g. after updating it
+   * @param id - The document ID
+   * @returns The loader, for chaining
+   */
+  clear(id: string | number): this {
+    this.cachedLoads.delete(String(id));
+    return this;
+  }
+
+  /**
+   * Removes all the documents from the cache
+   * @returns The loader, for chaining
+   */
+  clearAll(): this {
+    this.cachedLoads.clear();
+    return this;
+  }
+
+  /**
+   * Adds a document to the cache, unless the ID is already cached
+   * @param id - The document ID
+   * @param document - The document, or null for a missing document
+   * @returns The loader, for chaining
+   */
+  prime(id: string | number, document: TDoc | null): this {
+    const key = String(id);
+    if (this.cache && !this.cachedLoads.has(key)) {
+      this.cachedLoads.set(key, Promise.resolve(document));
+    }
+    return this;
+  }
+}
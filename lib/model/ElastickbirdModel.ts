@@ -1,20 +1,64 @@
 import { ElasticsearchClient } from '../client/ElasticsearchClient';
 import { ElastickbirdQuery } from '../query/ElastickbirdQuery';
-import { ElastickbirdBulk } from '../bulk/ElastickbirdBulk';
+import { BulkHooks, ElastickbirdBulk } from '../bulk/ElastickbirdBulk';
 import { ElastickbirdBulkQueue } from '../bulk/ElastickbirdBulkQueue';
+import { ElastickbirdLoader } from '../loader/ElastickbirdLoader';
 import { 
   createDocumentOperationResult, 
-  createByQueryOperationResult 
+  createConflictOperationResult,
+  createDocumentWithMetadata,
+  createSearchHit,
+  createExplainResult,
+  createSearchProfile,
+  createByQueryOperationResult,
+  createReindexOperationResult
 } from '../utils/ResponseResults';
-import { ElastickBirdSchema, DocumentOperationResult, ByQueryOperationResult } from '../types';
+import {
+  ElastickBirdSchema,
+  DocumentOperationResult,
+  ByQueryOperationResult,
+  ReindexOperationResult,
+  RolloverOperationResult,
+  MappingDiffResult,
+  FieldValidationError,
+  IndexInfo,
+  PruneIndicesResult,
+  SearchResult,
+  InferDocument,
+  DocumentField,
+  HookFunction,
+  HookOperation,
+  SanitizeResult,
+  ConcurrencyControlOptions,
+  DocumentWithMetadata,
+  MultiGetItem,
+  LoaderOptions,
+  SearchHit,
+  SearchHitMetadata,
+  SearchRow,
+  SearchOptions,
+  FacetDefinition,
+  CursorOptions,
+  ExplainResult
+} from '../types';
 import { ElastickbirdFilterRules } from '../utils/ElastickbirdFilterRules';
+import { diffMappingProperties } from '../utils/MappingDiff';
+import { MappingConflictError, HookAbortError } from './errors';
+import { ElastickbirdValidator } from '../utils/ElastickbirdValidator';
+import { ElastickbirdHooks } from '../utils/ElastickbirdHooks';
+import { ElastickbirdSanitizer } from '../utils/ElastickbirdSanitizer';
+import { encodeCursor } from '../utils/Cursor';
 
 /**
  * ElastickbirdModel - A class for managing Elasticsearch indices, mappings, settings, and document operations.
  * Provides functionality to interact with Elasticsearch via CRUD operations, bulk operations, and more.
+ * @template TDoc - The document type, use `ElastickbirdModel.define()` to infer it from the mappings.
  */
-export class ElastickbirdModel {
+export class ElastickbirdModel<TDoc = any> {
   private schema: ElastickBirdSchema;
+  private validator?: ElastickbirdValidator;
+  private sanitizer: ElastickbirdSanitizer;
+  private hooks: ElastickbirdHooks;
 
      /**
     * Creates an instance of ElastickbirdModel.
@@ -27,15 +71,38 @@ export class ElastickbirdModel {
       searchAfterDelimiter: "~"
     };
     this.schema = { ...defaultsSchema, ...schema };
+    if (this.schema.validation) {
+      this.validator = new ElastickbirdValidator(this.getMappings(), this.schema.validation);
+    }
+    this.sanitizer = new ElastickbirdSanitizer(this.getMappings(), this.schema.unmappedFields);
+    this.hooks = new ElastickbirdHooks(this.schema.hooks);
   }
 
   /**
-   * Generates a new index name based on the current timestamp.
+   * Creates an ElastickbirdModel whose document type is inferred from the `mappings` literal.
+   * @param schema - The schema configuration for the Elasticsearch index.
+   * @returns The typed model.
+   */
+  static define<const TMappings extends Record<string, any>>(
+    schema: ElastickBirdSchema & { mappings: TMappings }
+  ): ElastickbirdModel<InferDocument<TMappings>> {
+    return new ElastickbirdModel<InferDocument<TMappings>>(schema);
+  }
+
+  /**
+   * Generates a new index name based on the current timestamp (`<alias>_<15 digits>`).
+   * The timestamp has a 100ms resolution, it's moved forward while an index with the same name exists.
    * @returns The new index name.
    * @private
    */
-  private generateNewIndexName(): string {
-    return (this.schema.alias + "_" + new Date().toISOString().replace(/[-:.T]/g, '').slice(0, 15)).toLowerCase();
+  private async generateNewIndexName(): Promise<string> {
+    const client = ElasticsearchClient.getClient();
+    let time = Date.now();
+    for (;;) {
+      const name = (this.schema.alias + "_" + new Date(time).toISOString().replace(/[-:.T]/g, '').slice(0, 15)).toLowerCase();
+      if (!(await client.indices.exists({ index: name }))) return name;
+      time += 100;
+    }
   }
 
   /**
@@ -56,6 +123,153 @@ export class ElastickbirdModel {
     };
   }
 
+  /**
+   * Creates an error response for operations whose payload failed validation.
+   * @param validationErrors - The field-level validation errors.
+   * @returns The error response object.
+   * @private
+   */
+  private createValidationOperationError(
+    validationErrors: FieldValidationError[]
+  ): DocumentOperationResult {
+    const fields = validationErrors.map(({ field, message }) => `${field} (${message})`);
+    return {
+      success: false,
+      error: `Validation failed: ${fields.join(", ")}`,
+      total: 0,
+      validationErrors
+    };
+  }
+
+  /**
+   * Creates an error response for operations aborted by a pre hook.
+   * @param error - The abort error thrown by the hook.
+   * @returns The error response object.
+   * @private
+   */
+  private createAbortedOperationError(error: HookAbortError): DocumentOperationResult {
+    return {
+      success: false,
+      error: error.message,
+      total: 0,
+      aborted: true
+    };
+  }
+
+  /**
+   * Runs an operation between its pre and post hooks.
+   * Pre hooks may change the payload and the options before the operation runs.
+   * @param operation - The operation type.
+   * @param payload - The operation payload.
+   * @param options - The operation options.
+   * @param execute - Runs the operation with the payload and options left by the pre hooks.
+   * @param onAbort - Maps an abort from a pre hook to a result, the abort error is thrown otherwise.
+   * @returns The operation result.
+   * @private
+   */
+  private async withHooks<TResult>(
+    operation: HookOperation,
+    payload: any,
+    options: Record<string, any>,
+    execute: (payload: any, options: Record<string, any>) => Promise<TResult>,
+    onAbort?: (error: HookAbortError) => TResult
+  ): Promise<TResult> {
+    const context = this.hooks.createContext(operation, payload, options);
+    try {
+      await this.hooks.run('pre', context);
+    } catch (err) {
+      if (onAbort && err instanceof HookAbortError) return onAbort(err);
+      throw err;
+    }
+
+    context.result = await execute(context.payload, context.options);
+    await this.hooks.run('post', context);
+    return context.result;
+  }
+
+  /**
+   * Creates the hooks run by bulk operations for each batch.
+   * @returns The bulk hooks.
+   * @private
+   */
+  private createBulkHooks(): BulkHooks<TDoc> {
+    return {
+      pre: async items => {
+        const context = this.hooks.createContext('bulk', items);
+        await this.hooks.run('pre', context);
+        return context.payload;
+      },
+      post: async (items, result) => {
+        const context = this.hooks.createContext('bulk', items);
+        context.result = result;
+        await this.hooks.run('post', context);
+      }
+    };
+  }
+
+  /**
+   * Registers a hook that runs before an operation.
+   * The hook may change `context.payload` or call `context.abort()` to cancel the operation.
+   * @param operation - The operation type.
+   * @param hook - The hook function.
+   * @returns The model, for chaining.
+   */
+  pre(operation: HookOperation, hook: HookFunction): this {
+    this.hooks.add('pre', operation, hook);
+    return this;
+  }
+
+  /**
+   * Registers a hook that runs after an operation, with its result in `context.result`.
+   * @param operation - The operation type.
+   * @param hook - The hook function.
+   * @returns The model, for chaining.
+   */
+  post(operation: HookOperation, hook: HookFunction): this {
+    this.hooks.add('post', operation, hook);
+    return this;
+  }
+
+  /**
+   * Validates a document payload against the schema validation rules.
+   * Without `validation` in the schema, every payload is valid.
+   * @param payload - The document payload.
+   * @param options - Validation options.
+   * @param options.partial - Only validate the fields the payload holds, as for updates.
+   * @returns The field-level validation errors, empty if the payload is valid.
+   */
+  validate(
+    payload: Partial<TDoc>,
+    { partial = false }: { partial?: boolean } = {}
+  ): FieldValidationError[] {
+    return this.validator?.validate(payload, { partial }) || [];
+  }
+
+  /**
+   * Applies the schema `unmappedFields` policy to a document payload, recursing into object and nested fields.
+   * @param payload - The document payload.
+   * @returns The document to send to Elasticsearch and the rejected fields.
+   */
+  sanitize(payload: Partial<TDoc>): SanitizeResult<TDoc> {
+    return this.sanitizer.sanitize<TDoc>(payload);
+  }
+
+  /**
+   * Sanitizes and validates a document payload before a write.
+   * @param payload - The document payload.
+   * @param options - Validation options.
+   * @param options.partial - Only validate the fields the payload holds, as for updates.
+   * @returns The document to send to Elasticsearch and all the field-level errors.
+   * @private
+   */
+  private prepareDocument(
+    payload: Partial<TDoc>,
+    { partial = false }: { partial?: boolean } = {}
+  ): SanitizeResult<TDoc> {
+    const { document, errors } = this.sanitize(payload);
+    return { document, errors: [...errors, ...this.validate(document, { partial })] };
+  }
+
   /**
    * Get nested value from object using dot notation
    * @param obj - The object to get value from
@@ -67,6 +281,15 @@ export class ElastickbirdModel {
     return path.split('.').reduce((current, key) => current?.[key], obj);
   }
 
+  /**
+   * Checks if the documents are routed by a field of their payload
+   * @returns true if the schema defines a routing field or routing rules
+   * @private
+   */
+  private hasRouting(): boolean {
+    return !!this.schema.routing || !!Object.keys(this.schema.routingRules || {}).length;
+  }
+
   /**
    * Set routing value for request
    * @param request - The request object
@@ -87,27 +310,119 @@ export class ElastickbirdModel {
       }
     }
   }
+  /**
+   * Sets the optimistic concurrency control parameters of a write request.
+   * @param request - The Elasticsearch request object.
+   * @param options - The concurrency control options.
+   * @private
+   */
+  private setConcurrencyControl(
+    request: any,
+    { ifSeqNo, ifPrimaryTerm, version, versionType }: ConcurrencyControlOptions
+  ): void {
+    if (ifSeqNo !== undefined) request.if_seq_no = ifSeqNo;
+    if (ifPrimaryTerm !== undefined) request.if_primary_term = ifPrimaryTerm;
+    if (version !== undefined) request.version = version;
+    if (versionType) request.version_type = versionType;
+  }
+
 
   /**
    * Retrieves the current index name associated with the alias.
+   * In rollover mode, it's the index behind the write alias.
    * @returns The current index name or `false` if the alias doesn't exist.
    */
   async getIndexName(): Promise<string | false> {
+    const writeAlias = this.getWriteAlias();
     try {
       const client = ElasticsearchClient.getClient();
-      const result = await client.indices.getAlias({ name: this.getAlias() });
-      return Object.keys(result)[0];
+      const result = await client.indices.getAlias({ name: writeAlias });
+      const indexNames = Object.keys(result);
+      return indexNames.find(index => result[index].aliases[writeAlias]?.is_write_index) || indexNames[0];
     } catch (e) {
       return false;
     }
   }
 
   /**
-   * Gets the mappings defined in the schema.
+   * Retrieves every index associated with the alias, including previous rollover generations.
+   * @returns The index names, empty if the alias doesn't exist.
+   */
+  async getIndexNames(): Promise<string[]> {
+    try {
+      const client = ElasticsearchClient.getClient();
+      const result = await client.indices.getAlias({ name: this.getAlias() });
+      return Object.keys(result);
+    } catch (e) {
+      return [];
+    }
+  }
+
+  /**
+   * Finds documents across the rollover generations, as the write alias can't serve reads once it spans several indices.
+   * When a document is stored in more than one generation, the newest one wins.
+   * @param docs - The multi-get docs, with their ID and routing.
+   * @param options - Additional options.
+   * @param options.source - The `_source` option of the multi-get request.
+   * @returns The multi-get item of each document, missing documents point to the write index.
+   * @private
+   */
+  private async findInGenerations(docs: any[], { source }: { source?: any } = {}): Promise<any[]> {
+    const writeAlias = this.getWriteAlias();
+    const client = ElasticsearchClient.getClient();
+
+    let generations: string[] = [];
+    let writeIndex = writeAlias;
+    try {
+      const result = await client.indices.getAlias({ name: writeAlias });
+      // generation names end with their creation timestamp
+      generations = Object.keys(result).sort().reverse();
+      writeIndex = generations.find(index => result[index].aliases[writeAlias]?.is_write_index) || generations[0];
+    } catch (e) {
+      // the alias doesn't exist, the requests to the write alias report it
+    }
+
+    const notFound = (doc: any) => ({ _index: writeIndex, _id: doc._id, found: false });
+    if (!generations.length) return docs.map(notFound);
+
+    const request: any = {
+      docs: docs.flatMap(doc => generations.map(index => ({ ...doc, _index: index })))
+    };
+    if (source !== undefined) request._source = source;
+
+    const response = await client.mget<TDoc>(request);
+    return docs.map((doc, i) => {
+      const items: any[] = response.docs.slice(i * generations.length, (i + 1) * generations.length);
+      return items.find(item => item.found) || items.find(item => item.error) || notFound(doc);
+    });
+  }
+
+  /**
+   * Resolves the index of a single document operation.
+   * In rollover mode, it's the generation that stores the document, or the write index if none does.
+   * @param request - The Elasticsearch request object, with the document ID and routing.
+   * @returns The index or alias to send the request to.
+   * @private
+   */
+  private async resolveDocumentIndex(request: { id: string; routing?: string }): Promise<string> {
+    if (!this.schema.rollover) return this.getWriteAlias();
+
+    const doc: any = { _id: request.id };
+    if (request.routing) doc.routing = request.routing;
+    const [item] = await this.findInGenerations([doc], { source: false });
+    return item._index;
+  }
+
+  /**
+   * Gets the mappings defined in the schema, merged over the ones of its component templates.
    * @returns The mappings for the index.
    */
   getMappings(): Record<string, any> {
-    return this.schema.mappings || { properties: {} };
+    const mappings = this.schema.mappings || { properties: {} };
+    return (this.schema.componentTemplates || []).reduceRight(
+      (merged, template) => this.mergeDefinitions(template.getMappings(), merged),
+      mappings
+    );
   }
 
   /**
@@ -125,7 +440,28 @@ export class ElastickbirdModel {
   getSettings(): Record<string, any> {
     let settings = this.schema.settings || {};
     // You can add test-specific settings here if needed
-    return settings;
+    return (this.schema.componentTemplates || []).reduceRight(
+      (merged, template) => this.mergeDefinitions(template.getSettings(), merged),
+      settings
+    );
+  }
+
+  /**
+   * Deep merges two mappings or settings definitions, the override wins on conflicts.
+   * @param base - The base definition
+   * @param override - The overriding definition
+   * @returns The merged definition
+   * @private
+   */
+  private mergeDefinitions(base: Record<string, any>, override: Record<string, any>): Record<string, any> {
+    const result: Record<string, any> = { ...base };
+    for (const [key, value] of Object.entries(override)) {
+      const isObject = value && typeof value === 'object' && !Array.isArray(value);
+      result[key] = isObject && result[key] && typeof result[key] === 'object'
+        ? this.mergeDefinitions(result[key], value)
+        : value;
+    }
+    return result;
   }
 
   /**
@@ -136,6 +472,16 @@ export class ElastickbirdModel {
     return this.schema.alias;
   }
 
+  /**
+   * Gets the alias used for write operations.
+   * In rollover mode, it's the write alias, otherwise the alias itself.
+   * @returns The write alias name.
+   */
+  getWriteAlias(): string {
+    if (!this.schema.rollover) return this.getAlias();
+    return this.schema.rollover.writeAlias || `${this.getAlias()}-write`;
+  }
+
   getSortRules(): Record<string, (query: any, order: string) => void> {
     return this.schema.sortRules || {};
   }
@@ -144,6 +490,14 @@ export class ElastickbirdModel {
     return this.schema.filterRules || new ElastickbirdFilterRules();
   }
 
+  getFacets(): Record<string, FacetDefinition> {
+    return this.schema.facets || {};
+  }
+
+  getCursorOptions(): CursorOptions {
+    return { format: 'legacy', ...this.schema.cursor };
+  }
+
   getRouting(): string | undefined {
     return this.schema.routing;
   }
@@ -173,13 +527,136 @@ export class ElastickbirdModel {
   async createIndex({ setAlias = true }: { setAlias?: boolean } = {}): Promise<any> {
     const client = ElasticsearchClient.getClient();
     return await client.indices.create({
-      index: this.generateNewIndexName(),
-      aliases: setAlias ? { [this.getAlias()]: {} } : {},
+      index: await this.generateNewIndexName(),
+      aliases: setAlias ? this.getIndexAliases() : {},
       mappings: this.getMappings(),
       settings: this.getSettings()
     });
   }
 
+  /**
+   * Gets the aliases assigned to the current index.
+   * @returns The aliases definition.
+   * @private
+   */
+  private getIndexAliases(): Record<string, any> {
+    const aliases: Record<string, any> = { [this.getAlias()]: {} };
+    if (this.schema.rollover) {
+      aliases[this.getWriteAlias()] = { is_write_index: true };
+    }
+    return aliases;
+  }
+
+  /**
+   * Rolls the write alias over to a new index when any of the schema rollover conditions is met.
+   * The new index joins the alias, so searches span every generation.
+   * @param options - Rollover options
+   * @param options.force - Roll over regardless of the conditions
+   * @param options.dryRun - Only check the conditions
+   * @returns The result of the rollover operation.
+   */
+  async rollover({
+    force = false,
+    dryRun = false
+  }: {
+    force?: boolean;
+    dryRun?: boolean;
+  } = {}): Promise<RolloverOperationResult> {
+    if (!this.schema.rollover) {
+      throw new Error(`Rollover is not enabled for ${this.getAlias()}`);
+    }
+    const { maxAge, maxDocs, maxSize, maxPrimaryShardSize } = this.schema.rollover;
+
+    const client = ElasticsearchClient.getClient();
+    const result = await client.indices.rollover({
+      alias: this.getWriteAlias(),
+      new_index: await this.generateNewIndexName(),
+      dry_run: dryRun,
+      conditions: force ? undefined : {
+        max_age: maxAge,
+        max_docs: maxDocs,
+        max_size: maxSize,
+        max_primary_shard_size: maxPrimaryShardSize
+      },
+      aliases: { [this.getAlias()]: {} },
+      mappings: this.getMappings(),
+      settings: this.getSettings()
+    });
+
+    return {
+      rolledOver: result.rolled_over,
+      dryRun: result.dry_run,
+      oldIndex: result.old_index,
+      newIndex: result.new_index,
+      conditions: result.conditions
+    };
+  }
+
+  /**
+   * Gets the index template name, the alias itself.
+   * @returns The index template name.
+   */
+  getIndexTemplateName(): string {
+    return this.getAlias();
+  }
+
+  /**
+   * Creates or updates an index template from the schema, matching every index of the model naming scheme.
+   * Indices created by Elasticsearch itself (e.g. by a rollover) get the schema mappings and settings,
+   * in rollover mode they also join the alias.
+   * The `<alias>_*` pattern also matches the indices of aliases that extend this one (e.g. `users` and `users_archive`),
+   * so the default priority is the alias length and the longest matching alias wins.
+   * @param options - Template options
+   * @param options.priority - The template priority (default: the alias length)
+   * @param options.putComponentTemplates - Put the schema component templates first
+   * @returns `true` if the template was acknowledged.
+   */
+  async putIndexTemplate({
+    priority = this.getAlias().length,
+    putComponentTemplates = true
+  }: {
+    priority?: number;
+    putComponentTemplates?: boolean;
+  } = {}): Promise<boolean> {
+    const componentTemplates = this.schema.componentTemplates || [];
+    if (putComponentTemplates) {
+      await Promise.all(componentTemplates.map(template => template.put()));
+    }
+
+    const client = ElasticsearchClient.getClient();
+    const { acknowledged } = await client.indices.putIndexTemplate({
+      name: this.getIndexTemplateName(),
+      index_patterns: [`${this.getAlias().toLowerCase()}_*`],
+      composed_of: componentTemplates.map(template => template.getName()),
+      priority,
+      template: {
+        mappings: this.schema.mappings,
+        settings: this.schema.settings,
+        aliases: this.schema.rollover ? { [this.getAlias()]: {} } : undefined
+      }
+    });
+    return acknowledged;
+  }
+
+  /**
+   * Checks if the index template exists in Elasticsearch.
+   * @returns `true` if the template exists, `false` otherwise.
+   */
+  async existsIndexTemplate(): Promise<boolean> {
+    const client = ElasticsearchClient.getClient();
+    return await client.indices.existsIndexTemplate({ name: this.getIndexTemplateName() });
+  }
+
+  /**
+   * Deletes the index template from Elasticsearch.
+   * @returns `true` if the deletion was acknowledged.
+   */
+  async deleteIndexTemplate(): Promise<boolean> {
+    const client = ElasticsearchClient.getClient();
+    const { acknowledged } = await client.indices.deleteIndexTemplate({ name: this.getIndexTemplateName() });
+    return acknowledged;
+  }
+
   /**
    * Updates the mapping for Elasticsearch indices when introducing new fields or modifying mapping parameters.
    * Note: For changes in field types, a reIndex operation is necessary.
@@ -205,6 +682,36 @@ export class ElastickbirdModel {
     }
   }
 
+  /**
+   * Compares the live mapping of the index behind the alias with the schema mappings.
+   * Each change reports whether it can be applied through `syncMapping()` or needs a `reindex()`.
+   * @param options - Diff options
+   * @param options.strict - Throw a `MappingConflictError` when a change requires a reindex
+   * @returns The mapping diff report.
+   */
+  async diffMapping({ strict = false }: { strict?: boolean } = {}): Promise<MappingDiffResult> {
+    const indexName = await this.getIndexName();
+    if (!indexName) {
+      throw new Error(`Alias ${this.getAlias()} does not point to any index`);
+    }
+
+    const client = ElasticsearchClient.getClient();
+    const result = await client.indices.getMapping({ index: indexName });
+    const changes = diffMappingProperties(
+      result[indexName]?.mappings?.properties,
+      this.getMappingsProperties()
+    );
+
+    const diff: MappingDiffResult = {
+      index: indexName,
+      inSync: !changes.length,
+      requiresReindex: changes.some(change => change.requiresReindex),
+      changes
+    };
+    if (strict && diff.requiresReindex) throw new MappingConflictError(diff);
+    return diff;
+  }
+
   /**
    * Ensures the index exists; if not, creates it.
    */
@@ -216,17 +723,96 @@ export class ElastickbirdModel {
   }
 
   /**
-   * Deletes the current index associated with the alias.
+   * Deletes the indices associated with the alias, including previous rollover generations.
    * @returns The response from Elasticsearch.
    */
   async deleteIndex(): Promise<any> {
-    const indexName = await this.getIndexName();
-    if (indexName) {
+    const indexNames = await this.getIndexNames();
+    if (indexNames.length) {
       const client = ElasticsearchClient.getClient();
-      return await client.indices.delete({ index: indexName });
+      return await client.indices.delete({ index: indexNames });
     }
   }
 
+  /**
+   * Lists every index following the model naming scheme (`<alias>_<timestamp>`),
+   * including the ones left behind by failed or manual re-creations.
+   * @returns The indices sorted from newest to oldest.
+   */
+  async listIndices(): Promise<IndexInfo[]> {
+    const pattern = `${this.getAlias().toLowerCase()}_*`;
+    // the names built by generateNewIndexName
+    const namePattern = new RegExp(
+      `^${this.getAlias().toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}_\\d{15}$`
+    );
+
+    const client = ElasticsearchClient.getClient();
+    const [records, aliases] = await Promise.all([
+      client.cat.indices({
+        index: pattern,
+        format: 'json',
+        bytes: 'b',
+        h: ['index', 'creation.date', 'docs.count', 'store.size']
+      }),
+      client.indices.getAlias({ index: pattern })
+    ]);
+
+    const alias = this.getAlias();
+    const writeAlias = this.getWriteAlias();
+    return records
+      .filter(record => record.index && namePattern.test(record.index))
+      .map(record => {
+        const indexAliases: Record<string, any> = aliases[record.index as string]?.aliases || {};
+        return {
+          index: record.index as string,
+          createdAt: new Date(Number(record['creation.date'])),
+          docsCount: Number(record['docs.count'] || 0),
+          sizeInBytes: Number(record['store.size'] || 0),
+          hasAlias: !!indexAliases[alias],
+          isWriteIndex: !!indexAliases[writeAlias] &&
+            (writeAlias === alias || !!indexAliases[writeAlias].is_write_index)
+        };
+      })
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  /**
+   * Deletes the indices following the model naming scheme that no longer hold the alias.
+   * Note: An index being filled by a running `reindex()` doesn't hold the alias yet,
+   * so the indices created in the last hour are left alone by default.
+   * @param options - Prune options
+   * @param options.keep - Number of the most recent orphaned indices to keep
+   * @param options.olderThan - Only delete indices created before this date, or older than these milliseconds
+   * (default: 1 hour, `0` deletes every orphaned index)
+   * @param options.dryRun - Only report the indices that would be deleted
+   * @returns The deleted and kept orphaned indices.
+   */
+  async pruneIndices({
+    keep = 0,
+    olderThan = 60 * 60 * 1000,
+    dryRun = false
+  }: {
+    keep?: number;
+    olderThan?: Date | number;
+    dryRun?: boolean;
+  } = {}): Promise<PruneIndicesResult> {
+    const orphans = (await this.listIndices()).filter(info => !info.hasAlias);
+    const cutoff = typeof olderThan === 'number' ? Date.now() - olderThan : olderThan.getTime();
+
+    const deleted: string[] = [];
+    const kept: string[] = [];
+    orphans.forEach((info, position) => {
+      const isStale = position >= keep && info.createdAt.getTime() < cutoff;
+      (isStale ? deleted : kept).push(info.index);
+    });
+
+    if (deleted.length && !dryRun) {
+      const client = ElasticsearchClient.getClient();
+      await client.indices.delete({ index: deleted });
+    }
+    return { deleted, kept, dryRun };
+  }
+
   /**
    * Truncates the index by deleting and recreating it.
    */
@@ -244,13 +830,36 @@ export class ElastickbirdModel {
    * @param options - Additional options.
    * @returns The result of the indexing operation or an error.
    */
-  async indexDocument(payload: any, { refresh = false }: { refresh?: boolean } = {}): Promise<DocumentOperationResult> {
-    const mappingFields = Object.keys(this.getMappingsProperties());
-    const body = this.pickFields(payload, mappingFields);
+  async indexDocument(
+    payload: TDoc,
+    options: { refresh?: boolean } & ConcurrencyControlOptions = {}
+  ): Promise<DocumentOperationResult> {
+    return this.withHooks(
+      'index',
+      payload,
+      options,
+      (payload, options) => this.indexDocumentInternal(payload, options),
+      error => this.createAbortedOperationError(error)
+    );
+  }
+
+  /**
+   * Indexes a document in Elasticsearch, without running hooks.
+   * @param payload - The document to be indexed.
+   * @param options - Additional options.
+   * @returns The result of the indexing operation or an error.
+   * @private
+   */
+  private async indexDocumentInternal(
+    payload: TDoc,
+    { refresh = false, ...concurrencyControl }: { refresh?: boolean } & ConcurrencyControlOptions = {}
+  ): Promise<DocumentOperationResult> {
+    const { document, errors } = this.prepareDocument(payload);
+    if (errors.length) return this.createValidationOperationError(errors);
 
     const request: any = {
-      index: this.getAlias(),
-      body,
+      index: this.getWriteAlias(),
+      body: document,
       refresh
     };
 
@@ -258,54 +867,70 @@ export class ElastickbirdModel {
     if (id) request.id = id;
 
     this.setRouting(request, payload);
+    // re-indexing a document of a previous generation replaces it there
+    if (id) request.index = await this.resolveDocumentIndex(request);
+    this.setConcurrencyControl(request, concurrencyControl);
 
-    const client = ElasticsearchClient.getClient();
-    const result = await client.index(request);
-    return createDocumentOperationResult(result);
+    try {
+      const client = ElasticsearchClient.getClient();
+      const result = await client.index(request);
+      return createDocumentOperationResult(result);
+    } catch (e: any) {
+      if (e.statusCode === 409) return createConflictOperationResult(e);
+      throw e;
+    }
   }
 
   /**
-   * Pick specific fields from an object
-   * @param obj - The source object
-   * @param fields - Array of field names to pick
-   * @returns Object with only the specified fields
-   * @private
+   * Creates a document in Elasticsearch.
+   * @param payload - The document to create.
+   * @param options - Additional options.
+   * @returns The result of the creation or an error.
    */
-  private pickFields(obj: any, fields: string[]): any {
-    const result: any = {};
-    for (const field of fields) {
-      if (obj.hasOwnProperty(field)) {
-        result[field] = obj[field];
-      }
-    }
-    return result;
+  async createDocument(payload: TDoc, options: { refresh?: boolean } = {}): Promise<DocumentOperationResult> {
+    return this.withHooks(
+      'create',
+      payload,
+      options,
+      (payload, options) => this.createDocumentInternal(payload, options),
+      error => this.createAbortedOperationError(error)
+    );
   }
 
   /**
-   * Creates a document in Elasticsearch.
+   * Creates a document in Elasticsearch, without running hooks.
    * @param payload - The document to create.
    * @param options - Additional options.
    * @returns The result of the creation or an error.
+   * @private
    */
-  async createDocument(payload: any, { refresh = false }: { refresh?: boolean } = {}): Promise<DocumentOperationResult> {
+  private async createDocumentInternal(
+    payload: TDoc,
+    { refresh = false }: { refresh?: boolean } = {}
+  ): Promise<DocumentOperationResult> {
     const id = this.getId(payload);
     if (!id) return this.createMissingIdOperationError(payload);
 
+    const { document, errors } = this.prepareDocument(payload);
+    if (errors.length) return this.createValidationOperationError(errors);
+
     const request: any = {
-      index: this.getAlias(),
+      index: this.getWriteAlias(),
       id,
-      body: payload,
+      body: document,
       refresh
     };
 
     this.setRouting(request, payload);
+    // a document of a previous generation makes the creation conflict
+    request.index = await this.resolveDocumentIndex(request);
 
     try {
       const client = ElasticsearchClient.getClient();
       const result = await client.create(request);
       return createDocumentOperationResult(result);
     } catch (e: any) {
-      if (e.statusCode === 409) return createDocumentOperationResult({ result: "conflict" });
+      if (e.statusCode === 409) return createConflictOperationResult(e);
       throw e;
     }
   }
@@ -317,22 +942,51 @@ export class ElastickbirdModel {
    * @returns The result of the update or an error.
    */
   async updateDocument(
-    payload: any, 
+    payload: Partial<TDoc>,
+    options: {
+      refresh?: boolean;
+      script?: any;
+      upsert?: boolean;
+    } & Pick<ConcurrencyControlOptions, 'ifSeqNo' | 'ifPrimaryTerm'> = {}
+  ): Promise<DocumentOperationResult> {
+    return this.withHooks(
+      'update',
+      payload,
+      options,
+      (payload, options) => this.updateDocumentInternal(payload, options),
+      error => this.createAbortedOperationError(error)
+    );
+  }
+
+  /**
+   * Updates a document in Elasticsearch by ID, without running hooks.
+   * @param payload - The document to update.
+   * @param options - Additional options.
+   * @returns The result of the update or an error.
+   * @private
+   */
+  private async updateDocumentInternal(
+    payload: Partial<TDoc>, 
     { 
       refresh = false, 
       script = null, 
-      upsert = false 
+      upsert = false,
+      ifSeqNo,
+      ifPrimaryTerm
     }: { 
       refresh?: boolean; 
       script?: any; 
       upsert?: boolean; 
-    } = {}
+    } & Pick<ConcurrencyControlOptions, 'ifSeqNo' | 'ifPrimaryTerm'> = {}
   ): Promise<DocumentOperationResult> {
     const id = this.getId(payload);
     if (!id) return this.createMissingIdOperationError(payload);
 
+    const { document, errors } = this.prepareDocument(payload, { partial: true });
+    if (errors.length) return this.createValidationOperationError(errors);
+
     const request: any = {
-      index: this.getAlias(),
+      index: this.getWriteAlias(),
       id: this.getId(payload),
       body: {},
       refresh,
@@ -340,17 +994,25 @@ export class ElastickbirdModel {
     };
 
     this.setRouting(request, payload);
+    request.index = await this.resolveDocumentIndex(request);
 
     if (script) {
       request.script = script;
-      if (upsert) request.upsert = payload;
+      if (upsert) request.upsert = document;
     } else {
-      request.body.doc = payload;
+      request.body.doc = document;
     }
 
-    const client = ElasticsearchClient.getClient();
-    const result = await client.update(request);
-    return createDocumentOperationResult(result);
+    this.setConcurrencyControl(request, { ifSeqNo, ifPrimaryTerm });
+
+    try {
+      const client = ElasticsearchClient.getClient();
+      const result = await client.update(request);
+      return createDocumentOperationResult(result);
+    } catch (e: any) {
+      if (e.statusCode === 409) return createConflictOperationResult(e);
+      throw e;
+    }
   }
 
   /**
@@ -359,16 +1021,41 @@ export class ElastickbirdModel {
    * @param options - Additional options.
    * @returns The result of the deletion or an error.
    */
-  async deleteDocument(payload: any, { refresh = false }: { refresh?: boolean } = {}): Promise<DocumentOperationResult> {
+  async deleteDocument(
+    payload: Partial<TDoc>,
+    options: { refresh?: boolean } & ConcurrencyControlOptions = {}
+  ): Promise<DocumentOperationResult> {
+    return this.withHooks(
+      'delete',
+      payload,
+      options,
+      (payload, options) => this.deleteDocumentInternal(payload, options),
+      error => this.createAbortedOperationError(error)
+    );
+  }
+
+  /**
+   * Deletes a document in Elasticsearch by ID, without running hooks.
+   * @param payload - The document to delete.
+   * @param options - Additional options.
+   * @returns The result of the deletion or an error.
+   * @private
+   */
+  private async deleteDocumentInternal(
+    payload: Partial<TDoc>,
+    { refresh = false, ...concurrencyControl }: { refresh?: boolean } & ConcurrencyControlOptions = {}
+  ): Promise<DocumentOperationResult> {
     const id = this.getId(payload);
     if (!id) return this.createMissingIdOperationError(payload);
 
     const request: any = {
-      index: this.getAlias(),
+      index: this.getWriteAlias(),
       id,
       refresh
     };
     this.setRouting(request, payload);
+    request.index = await this.resolveDocumentIndex(request);
+    this.setConcurrencyControl(request, concurrencyControl);
 
     try {
       const client = ElasticsearchClient.getClient();
@@ -378,6 +1065,7 @@ export class ElastickbirdModel {
       if (err.meta?.body?.result === "not_found") {
         return createDocumentOperationResult(err.meta?.body);
       }
+      if (err.statusCode === 409) return createConflictOperationResult(err);
       throw err;
     }
   }
@@ -413,18 +1101,44 @@ export class ElastickbirdModel {
    * Creates a query builder instance for this schema.
    * @returns A new query builder instance.
    */
-  query(): ElastickbirdQuery {
-    return new ElastickbirdQuery({ model: this});
+  query(): ElastickbirdQuery<TDoc> {
+    return new ElastickbirdQuery<TDoc>({ model: this});
   }
 
   /**
    * Executes a search query against the index.
    * @param request - The search request object.
    * @param options - Additional options.
+   * @param options.fields - The source fields to return.
+   * @param options.rowFormat - `hit` returns the whole hits (`_id`, `_score`, `highlight`, `sort`...) as rows.
+   * @param options.metadata - Hit metadata to merge into each source row, e.g. `['_id', '_score']`.
    * @returns The search results.
    */
-  async search(request: any = {}, { fields }: { fields?: string[] } = {}): Promise<any> {
-    request.index = this.getAlias();
+  search(
+    request: any,
+    options: SearchOptions<TDoc> & { rowFormat: 'hit' }
+  ): Promise<SearchResult<SearchHit<TDoc>>>;
+  search<TMetadata extends SearchHitMetadata = never>(
+    request?: any,
+    options?: SearchOptions<TDoc, TMetadata> & { rowFormat?: 'source' }
+  ): Promise<SearchResult<SearchRow<TDoc, TMetadata>>>;
+  async search(request: any = {}, options: SearchOptions<TDoc> = {}): Promise<SearchResult<any>> {
+    return this.withHooks('search', request, options, (request, options) => this.searchInternal(request, options));
+  }
+
+  /**
+   * Executes a search query against the index, without running hooks.
+   * @param request - The search request object.
+   * @param options - Additional options.
+   * @returns The search results.
+   * @private
+   */
+  private async searchInternal(
+    request: any = {},
+    { fields, rowFormat = 'source', metadata = [], sortValues = {} }: SearchOptions<TDoc> = {}
+  ): Promise<SearchResult<any>> {
+    // searches on a point in time target the indices of the point in time
+    if (!request.pit) request.index = this.getAlias();
     if (fields?.length) request._source = fields;
     
     const client = ElasticsearchClient.getClient();
@@ -434,14 +1148,26 @@ export class ElastickbirdModel {
     const totalHits = searchResult.hits.total;
     const count = typeof totalHits === 'number' ? totalHits : totalHits?.value || 0;
     
-    const result: any = {
-      rows: searchResult.hits.hits.map((res: any) => res._source),
+    const result: SearchResult<any> = {
+      rows: searchResult.hits.hits.map((hit: any) => this.createSearchRow(hit, rowFormat, metadata, sortValues)),
       count
     };
     
     if (searchResult.aggregations) {
       result.aggregations = searchResult.aggregations;
     }
+
+    if (request.highlight) {
+      result.highlights = searchResult.hits.hits.map((hit: any) => hit.highlight || {});
+    }
+
+    if (searchResult.pit_id) {
+      result.pit_id = searchResult.pit_id;
+    }
+
+    if (searchResult.profile) {
+      result.profile = createSearchProfile(searchResult.profile);
+    }
     
     if (
       searchResult.hits.hits.length &&
@@ -450,13 +1176,176 @@ export class ElastickbirdModel {
     ) {
       const lastHit = searchResult.hits.hits[searchResult.hits.hits.length - 1];
       if (lastHit?.sort) {
-        result.search_after = lastHit.sort.join(this.schema.searchAfterDelimiter);
+        const { format, secret } = this.getCursorOptions();
+        if (format === 'legacy') {
+          result.search_after = lastHit.sort.join(this.schema.searchAfterDelimiter);
+          result.cursor = result.search_after;
+        } else {
+          const pitId = searchResult.pit_id || request.pit?.id;
+          result.cursor = encodeCursor({ sort: lastHit.sort, pitId }, secret);
+        }
       }
     }
     
     return result;
   }
 
+  /**
+   * Formats a search hit as a result row.
+   * @param hit - The Elasticsearch hit.
+   * @param rowFormat - The row format.
+   * @param metadata - Hit metadata to merge into source rows.
+   * @param sortValues - Sort value indexes to merge into source rows, by row field.
+   * @returns The row, with the nested documents of the inner hits under `_innerHits`.
+   * @private
+   */
+  private createSearchRow(
+    hit: any,
+    rowFormat: 'source' | 'hit',
+    metadata: SearchHitMetadata[],
+    sortValues: Record<string, number>
+  ): any {
+    if (rowFormat === 'hit') return createSearchHit<TDoc>(hit);
+    const sortValueFields = Object.entries(sortValues);
+    if (!metadata.length && !sortValueFields.length && !hit.inner_hits) return hit._source;
+
+    const row = { ...hit._source };
+    for (const field of metadata) {
+      if (hit[field] !== undefined) row[field] = hit[field];
+    }
+    for (const [field, index] of sortValueFields) {
+      if (hit.sort?.[index] !== undefined) row[field] = hit.sort[index];
+    }
+    if (hit.inner_hits) row._innerHits = this.createInnerHits(hit.inner_hits);
+    return row;
+  }
+
+  /**
+   * Formats the inner hits of a search hit as the sources of the nested documents by name.
+   * @param innerHits - The Elasticsearch hit inner hits.
+   * @returns The nested documents by inner hits name.
+   * @private
+   */
+  private createInnerHits(innerHits: Record<string, any> = {}): Record<string, any[]> {
+    const result: Record<string, any[]> = {};
+    for (const [name, { hits }] of Object.entries<any>(innerHits)) {
+      result[name] = hits.hits.map((hit: any) => hit._source);
+    }
+    return result;
+  }
+
+  /**
+   * Opens a point in time, a consistent view of the index for searches across several requests.
+   * @param options - Options for the point in time.
+   * @param options.keepAlive - How long the point in time is kept.
+   * @param options.routing - Only open the point in time on the shards of this routing value.
+   * @returns The point in time ID.
+   */
+  async openPointInTime({
+    keepAlive = '1m',
+    routing
+  }: {
+    keepAlive?: string;
+    routing?: string;
+  } = {}): Promise<string> {
+    const request: any = {
+      index: this.getAlias(),
+      keep_alive: keepAlive
+    };
+    if (routing) request.routing = routing;
+
+    const client = ElasticsearchClient.getClient();
+    const result = await client.openPointInTime(request);
+    return result.id;
+  }
+
+  /**
+   * Closes a point in time, to release its resources before it expires.
+   * @param id - The point in time ID.
+   * @returns True if the point in time was closed.
+   */
+  async closePointInTime(id: string): Promise<boolean> {
+    const client = ElasticsearchClient.getClient();
+    const result = await client.closePointInTime({ id });
+    return result.succeeded;
+  }
+
+  /**
+   * Counts the documents that match a query, with the count API.
+   * @param params - Parameters for the count.
+   * @param params.query - The query, all the documents by default.
+   * @param params.routing - The routing value.
+   * @param params.terminateAfter - Stop counting on each shard after this number of documents.
+   * @returns The number of matching documents.
+   */
+  async count({
+    query,
+    routing,
+    terminateAfter
+  }: {
+    query?: any;
+    routing?: string;
+    terminateAfter?: number;
+  } = {}): Promise<number> {
+    const request: any = {
+      index: this.getAlias()
+    };
+    if (query) request.query = query;
+    if (routing) request.routing = routing;
+    if (terminateAfter) request.terminate_after = terminateAfter;
+
+    const client = ElasticsearchClient.getClient();
+    const result = await client.count(request);
+    return result.count;
+  }
+
+  /**
+   * Checks if any document matches a query, without fetching hits.
+   * @param params - Parameters for the check.
+   * @param params.query - The query.
+   * @param params.routing - The routing value.
+   * @returns True if at least one document matches.
+   */
+  async existsByQuery({ query, routing }: { query?: any; routing?: string } = {}): Promise<boolean> {
+    return await this.count({ query, routing, terminateAfter: 1 }) > 0;
+  }
+
+  /**
+   * Explains how a document matches a query and how its score is computed.
+   * The alias must point to a single index, as with rollover the explain API can't resolve the generation.
+   * @param params - Parameters for the explanation.
+   * @param params.id - The document ID.
+   * @param params.query - The query.
+   * @param params.routing - The routing value of the document.
+   * @returns The explain result, not matched with a null explanation if the document doesn't exist.
+   */
+  async explain({
+    id,
+    query = { match_all: {} },
+    routing
+  }: {
+    id: string;
+    query?: any;
+    routing?: string;
+  }): Promise<ExplainResult> {
+    if (!id) throw new Error('Document ID is required');
+
+    const request: any = {
+      index: this.getAlias(),
+      id,
+      query
+    };
+    if (routing) request.routing = routing;
+
+    const client = ElasticsearchClient.getClient();
+    try {
+      return createExplainResult(await client.explain(request));
+    } catch (e: any) {
+      if (e?.meta?.statusCode === 404 && e.meta.body?._id) return createExplainResult(e.meta.body);
+      throw e;
+    }
+  }
+
   /**
    * Deletes documents in Elasticsearch that match the specified query.
    * @param params - Parameters for the delete operation.
@@ -524,37 +1413,135 @@ export class ElastickbirdModel {
       throw new Error('Task ID not returned from updateByQuery');
     }
 
-    return new Promise(resolve => {
-      const checkTask = async () => {
-        const task = await client.tasks.get({ task_id: task_id as string });
+    return this.waitForTask(String(task_id), status => {
+      if (progressCallback && status?.updated !== undefined) {
+        progressCallback(status.updated);
+      }
+    }, progressIntervalDelay);
+  }
 
-        if (task.completed) {
-          resolve(task);
-          return;
-        }
-        if (progressCallback && task.task?.status?.updated !== undefined) {
-          progressCallback(task.task.status.updated);
+  /**
+   * Polls an Elasticsearch task until it completes.
+   * @param taskId - The task ID.
+   * @param onProgress - Called with the task status on every poll while the task is running.
+   * @param progressIntervalDelay - Delay in milliseconds between polls.
+   * @returns The completed task.
+   * @private
+   */
+  private waitForTask(
+    taskId: string,
+    onProgress: (status: any) => void,
+    progressIntervalDelay: number
+  ): Promise<any> {
+    const client = ElasticsearchClient.getClient();
+    return new Promise((resolve, reject) => {
+      const checkTask = async () => {
+        try {
+          const task = await client.tasks.get({ task_id: taskId });
+
+          if (task.completed) {
+            resolve(task);
+            return;
+          }
+          onProgress(task.task?.status);
+          setTimeout(checkTask, progressIntervalDelay);
+        } catch (e) {
+          reject(e);
         }
-        setTimeout(checkTask, progressIntervalDelay);
       };
       checkTask();
     });
   }
 
+  /**
+   * Reindexes the documents behind the alias into a new index created from the current schema
+   * and swaps the alias atomically once the copy has finished.
+   * Use it for mapping changes that `syncMapping()` can't apply, such as field type changes.
+   * Note: Documents written to the old index while the reindex task runs are not copied.
+   * @param options - Reindex options
+   * @returns The result of the reindex operation.
+   */
+  async reindex({
+    deleteOldIndex = true,
+    script,
+    progressCallback,
+    progressIntervalDelay = 10000
+  }: {
+    deleteOldIndex?: boolean;
+    script?: any;
+    progressCallback?: (processed: number, total: number) => void;
+    progressIntervalDelay?: number;
+  } = {}): Promise<ReindexOperationResult> {
+    const oldIndices = await this.getIndexNames();
+    if (!oldIndices.length) {
+      throw new Error(`Alias ${this.getAlias()} does not point to any index`);
+    }
+    // generation names end with their creation timestamp
+    oldIndices.sort();
+    const oldIndex = oldIndices[oldIndices.length - 1];
+
+    const client = ElasticsearchClient.getClient();
+    const { index: newIndex } = await this.createIndex({ setAlias: false });
+    if (this.schema.rollover) {
+      // an index template may have added the alias already, it must not be searchable until the swap
+      await client.indices.deleteAlias({ index: newIndex, name: this.getAlias() }, { ignore: [404] });
+    }
+
+    const { task: task_id } = await client.reindex({
+      source: { index: oldIndices },
+      dest: { index: newIndex },
+      script,
+      refresh: true,
+      wait_for_completion: false
+    });
+    if (!task_id) {
+      throw new Error('Task ID not returned from reindex');
+    }
+
+    const task = await this.waitForTask(String(task_id), status => {
+      if (progressCallback && status?.total !== undefined) {
+        progressCallback(
+          (status.created || 0) + (status.updated || 0) + (status.noops || 0),
+          status.total
+        );
+      }
+    }, progressIntervalDelay);
+
+    const error = task.error?.reason || (task.response?.failures?.length ? 'Reindex failed' : undefined);
+    if (error) {
+      // leave the alias untouched and drop the partially filled index
+      await client.indices.delete({ index: newIndex });
+      return createReindexOperationResult(task.response, { oldIndex, oldIndices, newIndex }, error);
+    }
+
+    const actions: any[] = Object.entries(this.getIndexAliases()).map(([alias, options]) => ({
+      add: { index: newIndex, alias, ...options }
+    }));
+    for (const index of oldIndices) {
+      actions.push(deleteOldIndex
+        ? { remove_index: { index } }
+        : { remove: { index, aliases: Object.keys(this.getIndexAliases()) } }
+      );
+    }
+    await client.indices.updateAliases({ actions });
+    return createReindexOperationResult(task.response, { oldIndex, oldIndices, newIndex });
+  }
+
   /**
    * Checks if a document exists in Elasticsearch by ID.
    * @param payload - The document payload to check.
    * @returns True if the document exists, false otherwise, or an error if ID is missing.
    */
-  async documentExists(payload: any): Promise<boolean | DocumentOperationResult> {
+  async documentExists(payload: Partial<TDoc>): Promise<boolean | DocumentOperationResult> {
     const id = this.getId(payload);
     if (!id) return this.createMissingIdOperationError(payload);
 
     const request: any = {
-      index: this.getAlias(),
+      index: this.getWriteAlias(),
       id
     };
     this.setRouting(request, payload);
+    request.index = await this.resolveDocumentIndex(request);
 
     const client = ElasticsearchClient.getClient();
     return await client.exists(request);
@@ -563,45 +1550,150 @@ export class ElastickbirdModel {
   /**
    * Retrieves a document from Elasticsearch by payload.
    * @param payload - The document payload to retrieve.
-   * @returns The document source or an error if ID is missing.
+   * @param options - Additional options.
+   * @param options.metadata - Return the document under `_source` with its metadata (`_seq_no`, `_primary_term`,
+   * `_version`...), to use with the concurrency control options of the write operations.
+   * @returns The document source or an error if ID is missing, tell them apart with `isDocumentOperationResult`.
    */
-  async getDocument(payload: any): Promise<any | DocumentOperationResult> {
+  getDocument(
+    payload: Partial<TDoc>,
+    options: { metadata: true }
+  ): Promise<DocumentWithMetadata<TDoc> | DocumentOperationResult>;
+  getDocument(payload: Partial<TDoc>, options?: { metadata?: false }): Promise<TDoc | DocumentOperationResult>;
+  async getDocument(
+    payload: Partial<TDoc>,
+    { metadata = false }: { metadata?: boolean } = {}
+  ): Promise<TDoc | DocumentWithMetadata<TDoc> | DocumentOperationResult> {
     const id = this.getId(payload);
     if (!id) return this.createMissingIdOperationError(payload);
 
     const request: any = {
-      index: this.getAlias(),
+      index: this.getWriteAlias(),
       id
     };
     this.setRouting(request, payload);
+    request.index = await this.resolveDocumentIndex(request);
 
     const client = ElasticsearchClient.getClient();
-    const result = await client.get(request);
-    return result?._source;
+    const result = await client.get<TDoc>(request);
+    return metadata ? createDocumentWithMetadata<TDoc>(result) : result?._source as TDoc;
   }
 
   /** 
    * Retrieves a document from Elasticsearch by ID.
    * @param id - The ID of the document to retrieve.
-   * @returns The document source or an error if ID is missing.
+   * @param options - Additional options.
+   * @param options.metadata - Return the document under `_source` with its metadata.
+   * @returns The document source or an error if ID is missing, tell them apart with `isDocumentOperationResult`.
    */
-  async getDocumentById(id: string): Promise<any | DocumentOperationResult> {
+  getDocumentById(id: string, options: { metadata: true }): Promise<DocumentWithMetadata<TDoc> | DocumentOperationResult>;
+  getDocumentById(id: string, options?: { metadata?: false }): Promise<TDoc | DocumentOperationResult>;
+  async getDocumentById(
+    id: string,
+    { metadata = false }: { metadata?: boolean } = {}
+  ): Promise<TDoc | DocumentWithMetadata<TDoc> | DocumentOperationResult> {
     if (!id) return {
       success: false,
       error: "ID is required",
       total: 0
     }
     const request: any = {
-      index: this.getAlias(),
+      index: this.getWriteAlias(),
       id
     };
+    request.index = await this.resolveDocumentIndex(request);
+
     const client = ElasticsearchClient.getClient();
-    const result = await client.get(request);
-    return result?._source;
+    const result = await client.get<TDoc>(request);
+    return metadata ? createDocumentWithMetadata<TDoc>(result) : result?._source as TDoc;
+  }
+
+  /**
+   * Retrieves multiple documents in a single request.
+   * @param payloadsOrIds - The document payloads (their IDs and routing are built from the schema) or IDs.
+   * IDs are rejected per item on models with routing.
+   * @param options - Additional options.
+   * @param options.fields - The source fields to return.
+   * @returns One item per input, in the same order, with `found: false` for missing documents.
+   */
+  async getDocuments(
+    payloadsOrIds: Array<Partial<TDoc> | string | number>,
+    { fields }: { fields?: DocumentField<TDoc>[] } = {}
+  ): Promise<MultiGetItem<TDoc>[]> {
+    const results: MultiGetItem<TDoc>[] = [];
+    const docs: any[] = [];
+    // position in the results of each requested document
+    const positions: number[] = [];
+
+    for (const payloadOrId of payloadsOrIds) {
+      if (typeof payloadOrId === 'string' || typeof payloadOrId === 'number') {
+        // without routing, the document would be looked up on the wrong shard
+        if (this.hasRouting()) {
+          results.push({ _id: String(payloadOrId), found: false, error: 'Routed documents must be requested by payload' });
+          continue;
+        }
+        positions.push(results.length);
+        docs.push({ _id: String(payloadOrId) });
+        results.push({ _id: String(payloadOrId), found: false });
+        continue;
+      }
+
+      const id = this.getId(payloadOrId);
+      if (!id) {
+        const { error } = this.createMissingIdOperationError(payloadOrId);
+        results.push({ _id: null, found: false, error });
+        continue;
+      }
+
+      const doc: any = { _id: id };
+      this.setRouting(doc, payloadOrId);
+      positions.push(results.length);
+      docs.push(doc);
+      results.push({ _id: id, found: false });
+    }
+
+    if (!docs.length) return results;
+
+    let items: any[];
+    if (this.schema.rollover) {
+      items = await this.findInGenerations(docs, { source: fields?.length ? fields : undefined });
+    } else {
+      const request: any = {
+        index: this.getWriteAlias(),
+        docs
+      };
+      if (fields?.length) request._source = fields;
+
+      const client = ElasticsearchClient.getClient();
+      const response = await client.mget<TDoc>(request);
+      items = response.docs;
+    }
+
+    items.forEach((doc: any, i: number) => {
+      const result = results[positions[i]];
+      if (doc.error) {
+        result.error = doc.error.reason || doc.error.type;
+      } else if (doc.found) {
+        result.found = true;
+        result.document = doc._source;
+      }
+    });
+    return results;
+  }
+
+  /**
+   * Creates a loader that batches the document loads of the same tick into a single multi-get request.
+   * Create one loader per request scope, as it caches the loaded documents.
+   * @param options - Options for the loader.
+   * @returns The loader object.
+   */
+  createLoader(options: LoaderOptions = {}): ElastickbirdLoader<TDoc> {
+    return new ElastickbirdLoader<TDoc>({ ...options, model: this });
   }
 
   /**
    * Initializes a bulk operation for indexing, updating, or deleting multiple documents.
+   * In rollover mode, the operations go to the write index, so updates and deletes don't reach previous generations.
    * @param options - Options for the bulk operation.
    * @returns The bulk operation object.
    */
@@ -613,13 +1705,16 @@ export class ElastickbirdModel {
     batchMode?: boolean; 
     batchSize?: number; 
     refresh?: boolean; 
-  } = {}): ElastickbirdBulk {
-    return new ElastickbirdBulk({
-      getId: (payload: any) => {
+  } = {}): ElastickbirdBulk<TDoc> {
+    return new ElastickbirdBulk<TDoc>({
+      getId: (payload: Partial<TDoc>) => {
         const id = this.getId(payload);
         return id || '';
       },
-      schema: this.schema,
+      sanitize: (payload: Partial<TDoc>) => this.sanitize(payload),
+      validate: (payload: Partial<TDoc>, partial: boolean) => this.validate(payload, { partial }),
+      hooks: this.createBulkHooks(),
+      schema: { ...this.schema, alias: this.getWriteAlias() },
       batchMode,
       batchSize,
       refresh
@@ -628,6 +1723,7 @@ export class ElastickbirdModel {
 
   /**
    * Initializes a bulk operation queue for indexing, updating, or deleting multiple documents while adding operations in batches.
+   * In rollover mode, the operations go to the write index, so updates and deletes don't reach previous generations.
    * @param options - Options for the bulk operation queue.
    * @returns The bulk operation queue object.
    */
@@ -637,13 +1733,16 @@ export class ElastickbirdModel {
   }: { 
     batchSize?: number; 
     refresh?: boolean; 
-  } = {}): ElastickbirdBulkQueue {
-    return new ElastickbirdBulkQueue({
-      getId: (payload: any) => {
+  } = {}): ElastickbirdBulkQueue<TDoc> {
+    return new ElastickbirdBulkQueue<TDoc>({
+      getId: (payload: Partial<TDoc>) => {
         const id = this.getId(payload);
         return id || '';
       },
-      schema: this.schema,
+      sanitize: (payload: Partial<TDoc>) => this.sanitize(payload),
+      validate: (payload: Partial<TDoc>, partial: boolean) => this.validate(payload, { partial }),
+      hooks: this.createBulkHooks(),
+      schema: { ...this.schema, alias: this.getWriteAlias() },
       batchSize,
       refresh
     });
@@ -654,7 +1753,7 @@ export class ElastickbirdModel {
    * @param payload - The document payload.
    * @returns The constructed ID or false if required attributes are missing.
    */
-  getId(payload: any): string | false {
+  getId(payload: Partial<TDoc>): string | false {
     if (this.schema.primaryKeyAttributes?.length) {
       const areAllDefined = this.schema.primaryKeyAttributes.every(key => 
         !!this.getNestedValue(payload, key)
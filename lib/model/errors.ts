@@ -0,0 +1,27 @@
+import { MappingDiffResult } from '../types';
+
+class MappingConflictError extends Error {
+  readonly diff: MappingDiffResult;
+
+  constructor(diff: MappingDiffResult) {
+    const fields = diff.changes
+      .filter(change => change.requiresReindex)
+      .map(change => change.field);
+    super(`Mapping of index ${diff.index} requires a reindex, incompatible fields: ${fields.join(', ')}`);
+    this.diff = diff;
+  }
+}
+
+class HookAbortError extends Error {
+  constructor(reason: string) {
+    super(reason);
+  }
+}
+
+class InvalidCursorError extends Error {
+  constructor(reason: string) {
+    super(reason);
+  }
+}
+
+export { MappingConflictError, HookAbortError, InvalidCursorError };
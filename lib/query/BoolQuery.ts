@@ -1,14 +1,45 @@
-export class BoolQuery {
+import {
+  DocumentField,
+  GeoPoint,
+  NestedDocument,
+  NestedQueryOptions,
+  MultiMatchOptions,
+  MatchPhraseOptions,
+  MatchPhrasePrefixOptions,
+  TermLevelOptions,
+  RegexpOptions,
+  FuzzyOptions,
+  TermsSetOptions
+} from '../types';
+import { toSnakeCaseParameters } from '../utils/Parameters';
+
+// allowed options of the full-text and term-level clauses
+const MULTI_MATCH_OPTIONS = ["type", "operator", "minimumShouldMatch", "fuzziness", "tieBreaker", "analyzer", "boost"];
+const MATCH_PHRASE_OPTIONS = ["slop", "analyzer", "boost"];
+const MATCH_PHRASE_PREFIX_OPTIONS = [...MATCH_PHRASE_OPTIONS, "maxExpansions"];
+const TERM_LEVEL_OPTIONS = ["caseInsensitive", "rewrite", "boost"];
+const REGEXP_OPTIONS = [...TERM_LEVEL_OPTIONS, "flags", "maxDeterminizedStates"];
+const FUZZY_OPTIONS = ["fuzziness", "prefixLength", "maxExpansions", "transpositions", "rewrite", "boost"];
+const TERMS_SET_OPTIONS = ["minimumShouldMatchField", "minimumShouldMatchScript", "boost"];
+
+export class BoolQuery<TDoc = any> {
   private boolRef: Record<string, any>;
   private base: any; // ElastickbirdQuery - will be properly typed later
-  private mustBuilder?: OccurrenceQuery;
-  private shouldBuilder?: OccurrenceQuery;
-  private filterBuilder?: OccurrenceQuery;
-  private mustNotBuilder?: OccurrenceQuery;
+  private mustBuilder?: OccurrenceQuery<TDoc>;
+  private shouldBuilder?: OccurrenceQuery<TDoc>;
+  private filterBuilder?: OccurrenceQuery<TDoc>;
+  private mustNotBuilder?: OccurrenceQuery<TDoc>;
+  private fieldPrefix: string;
 
-  constructor(ref: Record<string, any>, base: any) {
+  /**
+   * @param ref - The bool object to fill
+   * @param base - The query builder
+   * @param fieldPrefix - Prepended to the field names, e.g. the path of a nested query
+   */
+  constructor(ref: Record<string, any>, base: any, fieldPrefix = "") {
     this.boolRef = ref;
     this.base = base;
+    this.fieldPrefix = fieldPrefix;
     this.bindMethods();
   }
 
@@ -22,10 +53,10 @@ export class BoolQuery {
    * Must occurrence
    * @returns OccurrenceQuery
    */
-  must(): OccurrenceQuery {
+  must(): OccurrenceQuery<TDoc> {
     if (!this.mustBuilder) {
       this.boolRef.must = [];
-      this.mustBuilder = new OccurrenceQuery(this.boolRef.must, this.base);
+      this.mustBuilder = new OccurrenceQuery<TDoc>(this.boolRef.must, this.base, this.fieldPrefix);
     }
     return this.mustBuilder;
   }
@@ -36,11 +67,11 @@ export class BoolQuery {
    * @param options.minimumShouldMatch - Minimum number of should clauses that must match
    * @returns OccurrenceQuery
    */
-  should({ minimumShouldMatch = 1 }: { minimumShouldMatch?: number } = {}): OccurrenceQuery {
+  should({ minimumShouldMatch = 1 }: { minimumShouldMatch?: number } = {}): OccurrenceQuery<TDoc> {
     if (!this.shouldBuilder) {
       this.boolRef.minimum_should_match = minimumShouldMatch;
       this.boolRef.should = [];
-      this.shouldBuilder = new OccurrenceQuery(this.boolRef.should, this.base);
+      this.shouldBuilder = new OccurrenceQuery<TDoc>(this.boolRef.should, this.base, this.fieldPrefix);
     }
     return this.shouldBuilder;
   }
@@ -49,10 +80,10 @@ export class BoolQuery {
    * Filter occurrence
    * @returns OccurrenceQuery
    */
-  filter(): OccurrenceQuery {
+  filter(): OccurrenceQuery<TDoc> {
     if (!this.filterBuilder) {
       this.boolRef.filter = [];
-      this.filterBuilder = new OccurrenceQuery(this.boolRef.filter, this.base);
+      this.filterBuilder = new OccurrenceQuery<TDoc>(this.boolRef.filter, this.base, this.fieldPrefix);
     }
     return this.filterBuilder;
   }
@@ -61,22 +92,29 @@ export class BoolQuery {
    * Must Not occurrence
    * @returns OccurrenceQuery
    */
-  mustNot(): OccurrenceQuery {
+  mustNot(): OccurrenceQuery<TDoc> {
     if (!this.mustNotBuilder) {
       this.boolRef.must_not = [];
-      this.mustNotBuilder = new OccurrenceQuery(this.boolRef.must_not, this.base);
+      this.mustNotBuilder = new OccurrenceQuery<TDoc>(this.boolRef.must_not, this.base, this.fieldPrefix);
     }
     return this.mustNotBuilder;
   }
 }
 
-export class OccurrenceQuery {
+export class OccurrenceQuery<TDoc = any> {
   private occurrRef: any[];
   private base: any; // ElastickbirdQuery - will be properly typed later
+  private fieldPrefix: string;
 
-  constructor(ref: any[], base: any) {
+  /**
+   * @param ref - The clauses array to fill
+   * @param base - The query builder
+   * @param fieldPrefix - Prepended to the field names, e.g. the path of a nested query
+   */
+  constructor(ref: any[], base: any, fieldPrefix = "") {
     this.occurrRef = ref;
     this.base = base;
+    this.fieldPrefix = fieldPrefix;
     this.bindMethods();
   }
 
@@ -97,14 +135,14 @@ export class OccurrenceQuery {
    * @param value - The term value
    * @returns this
    */
-  addTerm(field: string, value: any): this {
+  addTerm(field: DocumentField<TDoc>, value: any): this {
     if (!field) throw new Error("Field is required");
     this.occurrRef.push({
       term: {
-        [field]: value
+        [this.resolveField(field)]: value
       }
     });
-    this.base.setRouting(field, value);
+    this.base.setRouting(this.resolveField(field), value);
     return this;
   }
 
@@ -115,10 +153,10 @@ export class OccurrenceQuery {
    * @param values - Array of term values
    * @returns this
    */
-  addTerms(field: string, values: any[]): this {
+  addTerms(field: DocumentField<TDoc>, values: any[]): this {
     this.occurrRef.push({
       terms: {
-        [field]: values
+        [this.resolveField(field)]: values
       }
     });
     return this;
@@ -130,15 +168,192 @@ export class OccurrenceQuery {
    * @param value - The match value
    * @returns this
    */
-  addMatch(field: string, value: any): this {
+  addMatch(field: DocumentField<TDoc>, value: any): this {
     this.occurrRef.push({
       match: {
-        [field]: value
+        [this.resolveField(field)]: value
+      }
+    });
+    return this;
+  }
+
+  /**
+   * Add a multi match clause to the query, to match a text in several fields
+   * @param query - The text to match
+   * @param fields - The field names, or the boost of each field (e.g. `{ title: 3, body: 1 }`)
+   * @param options - Multi match options (type, operator, minimumShouldMatch, fuzziness, tieBreaker, analyzer, boost)
+   * @returns this
+   */
+  addMultiMatch(
+    query: string,
+    fields: DocumentField<TDoc>[] | Partial<Record<DocumentField<TDoc>, number>>,
+    options: MultiMatchOptions = {}
+  ): this {
+    const fieldList = Array.isArray(fields)
+      ? fields
+      : Object.entries<number | undefined>(fields).map(([field, boost]) => boost === undefined ? field : `${field}^${boost}`);
+    if (!fieldList.length) throw new Error("At least one field is required");
+
+    this.occurrRef.push({
+      multi_match: {
+        query,
+        fields: fieldList.map(field => this.resolveField(field)),
+        ...this.toParameters("multiMatch", options, MULTI_MATCH_OPTIONS)
+      }
+    });
+    return this;
+  }
+
+  /**
+   * Add a match phrase clause to the query, to match the terms in order
+   * @param field - The field name
+   * @param query - The phrase
+   * @param options - Match phrase options (slop, analyzer, boost)
+   * @returns this
+   */
+  addMatchPhrase(field: DocumentField<TDoc>, query: string, options: MatchPhraseOptions = {}): this {
+    return this.addFieldClause("match_phrase", field, {
+      query,
+      ...this.toParameters("matchPhrase", options, MATCH_PHRASE_OPTIONS)
+    });
+  }
+
+  /**
+   * Add a match phrase prefix clause to the query, to match the terms in order with the last one as a prefix
+   * @param field - The field name
+   * @param query - The phrase
+   * @param options - Match phrase prefix options (slop, maxExpansions, analyzer, boost)
+   * @returns this
+   */
+  addMatchPhrasePrefix(field: DocumentField<TDoc>, query: string, options: MatchPhrasePrefixOptions = {}): this {
+    return this.addFieldClause("match_phrase_prefix", field, {
+      query,
+      ...this.toParameters("matchPhrasePrefix", options, MATCH_PHRASE_PREFIX_OPTIONS)
+    });
+  }
+
+  /**
+   * Add a prefix clause to the query
+   * @param field - The field name
+   * @param value - The prefix
+   * @param options - Prefix options (caseInsensitive, rewrite, boost)
+   * @returns this
+   */
+  addPrefix(field: DocumentField<TDoc>, value: string, options: TermLevelOptions = {}): this {
+    return this.addFieldClause("prefix", field, {
+      value,
+      ...this.toParameters("prefix", options, TERM_LEVEL_OPTIONS)
+    });
+  }
+
+  /**
+   * Add a wildcard clause to the query
+   * @param field - The field name
+   * @param value - The pattern, `*` matches any characters and `?` a single character
+   * @param options - Wildcard options (caseInsensitive, rewrite, boost)
+   * @returns this
+   */
+  addWildcard(field: DocumentField<TDoc>, value: string, options: TermLevelOptions = {}): this {
+    return this.addFieldClause("wildcard", field, {
+      value,
+      ...this.toParameters("wildcard", options, TERM_LEVEL_OPTIONS)
+    });
+  }
+
+  /**
+   * Add a regexp clause to the query
+   * @param field - The field name
+   * @param value - The regular expression, in the Lucene syntax
+   * @param options - Regexp options (flags, caseInsensitive, maxDeterminizedStates, rewrite, boost)
+   * @returns this
+   */
+  addRegexp(field: DocumentField<TDoc>, value: string, options: RegexpOptions = {}): this {
+    return this.addFieldClause("regexp", field, {
+      value,
+      ...this.toParameters("regexp", options, REGEXP_OPTIONS)
+    });
+  }
+
+  /**
+   * Add a fuzzy clause to the query, to match the terms similar to a value
+   * @param field - The field name
+   * @param value - The term
+   * @param options - Fuzzy options (fuzziness, prefixLength, maxExpansions, transpositions, rewrite, boost)
+   * @returns this
+   */
+  addFuzzy(field: DocumentField<TDoc>, value: string, options: FuzzyOptions = {}): this {
+    return this.addFieldClause("fuzzy", field, {
+      value,
+      ...this.toParameters("fuzzy", options, FUZZY_OPTIONS)
+    });
+  }
+
+  /**
+   * Add an ids clause to the query
+   * @param ids - The document IDs
+   * @returns this
+   */
+  addIds(ids: Array<string | number>): this {
+    if (!ids?.length) throw new Error("At least one ID is required");
+    this.occurrRef.push({
+      ids: {
+        values: ids.map(String)
+      }
+    });
+    return this;
+  }
+
+  /**
+   * Add a terms set clause to the query, to match a minimum number of terms
+   * @param field - The field name
+   * @param terms - The terms
+   * @param options - Terms set options, minimumShouldMatchField or minimumShouldMatchScript is required
+   * @returns this
+   */
+  addTermsSet(field: DocumentField<TDoc>, terms: any[], options: TermsSetOptions<TDoc>): this {
+    const parameters = this.toParameters("termsSet", options, TERMS_SET_OPTIONS);
+    if (!parameters.minimum_should_match_field && !parameters.minimum_should_match_script) {
+      throw new Error("minimumShouldMatchField or minimumShouldMatchScript is required");
+    }
+    if (parameters.minimum_should_match_field) {
+      parameters.minimum_should_match_field = this.resolveField(parameters.minimum_should_match_field);
+    }
+    if (typeof parameters.minimum_should_match_script === "string") {
+      parameters.minimum_should_match_script = { source: parameters.minimum_should_match_script };
+    }
+    return this.addFieldClause("terms_set", field, { terms, ...parameters });
+  }
+
+  /**
+   * Add a clause with the field as key (`{ [type]: { [field]: body } }`)
+   */
+  private addFieldClause(type: string, field: DocumentField<TDoc>, body: Record<string, any>): this {
+    if (!field) throw new Error("Field is required");
+    this.occurrRef.push({
+      [type]: {
+        [this.resolveField(field)]: body
       }
     });
     return this;
   }
 
+  /**
+   * Resolve the full name of a field, relative to the nested path in nested queries
+   */
+  private resolveField(field: string): string {
+    return this.fieldPrefix + field;
+  }
+
+  /**
+   * Validate the clause options and convert them to Elasticsearch parameters (camelCase to snake_case)
+   * @throws Error if an option is not allowed
+   */
+  private toParameters(clause: string, options: Record<string, any> = {}, allowed: string[]): Record<string, any> {
+    const unknown = Object.keys(options).find(key => !allowed.includes(key));
+    if (unknown) throw new Error(`Unknown ${clause} option: ${unknown}`);
+    return toSnakeCaseParameters(options);
+  }
+
   /**
    * Add a query string clause to the query
    * @param query - The query string
@@ -146,13 +361,13 @@ export class OccurrenceQuery {
    * @returns this
    */
   addQueryString(query: string, options: {
-    fields?: string[];
+    fields?: DocumentField<TDoc>[];
     defaultOperator?: string;
     prefixLastWord?: boolean;
   } = {}): this {
     const queryStringBody: any = { query };
     const { fields, defaultOperator, prefixLastWord = false } = options;
-    if (fields?.length) queryStringBody.fields = fields;
+    if (fields?.length) queryStringBody.fields = fields.map(field => this.resolveField(field));
     if (defaultOperator) queryStringBody.default_operator = defaultOperator;
     if (prefixLastWord) queryStringBody.query = `${queryStringBody.query}*`;
     this.occurrRef.push({
@@ -166,10 +381,10 @@ export class OccurrenceQuery {
    * @param field - The field name
    * @returns this
    */
-  addExists(field: string): this {
+  addExists(field: DocumentField<TDoc>): this {
     this.occurrRef.push({
       exists: {
-        field
+        field: this.resolveField(field)
       }
     });
     return this;
@@ -181,15 +396,139 @@ export class OccurrenceQuery {
    * @param query - The range query object
    * @returns this
    */
-  addRange(field: string, query: any): this {
+  addRange(field: DocumentField<TDoc>, query: any): this {
     this.occurrRef.push({
       range: {
-        [field]: query
+        [this.resolveField(field)]: query
       }
     });
     return this;
   }
 
+  /**
+   * Add a geo distance clause to the query, to match the points within a distance of an origin
+   * @param field - The geo_point field name
+   * @param origin - The origin point
+   * @param distance - The distance, with its unit (e.g. `10km`) or in meters
+   * @param options - Geo distance options
+   * @param options.distanceType - `arc` (default) or `plane`, faster but inaccurate on long distances
+   * @returns this
+   */
+  addGeoDistance(
+    field: DocumentField<TDoc>,
+    origin: GeoPoint,
+    distance: string | number,
+    { distanceType }: { distanceType?: 'arc' | 'plane' } = {}
+  ): this {
+    if (!field) throw new Error("Field is required");
+    const geoDistance: Record<string, any> = { distance, [this.resolveField(field)]: origin };
+    if (distanceType) geoDistance.distance_type = distanceType;
+    this.occurrRef.push({ geo_distance: geoDistance });
+    return this;
+  }
+
+  /**
+   * Add a geo bounding box clause to the query, to match the points within a box
+   * @param field - The geo_point field name
+   * @param box - The box corners
+   * @returns this
+   */
+  addGeoBoundingBox(
+    field: DocumentField<TDoc>,
+    { topLeft, bottomRight }: { topLeft: GeoPoint; bottomRight: GeoPoint }
+  ): this {
+    if (!field) throw new Error("Field is required");
+    this.occurrRef.push({
+      geo_bounding_box: {
+        [this.resolveField(field)]: { top_left: topLeft, bottom_right: bottomRight }
+      }
+    });
+    return this;
+  }
+
+  /**
+   * Add a geo polygon clause to the query, to match the points within a polygon.
+   * It uses a geo_shape query, as the geo_polygon query is deprecated.
+   * @param field - The geo_point field name
+   * @param points - The polygon vertices (at least 3), the polygon is closed if needed
+   * @returns this
+   */
+  addGeoPolygon(field: DocumentField<TDoc>, points: GeoPoint[]): this {
+    if (!field) throw new Error("Field is required");
+    if (!points || points.length < 3) throw new Error("At least 3 points are required");
+
+    const coordinates = points.map(point => this.toCoordinates(point));
+    const [first, last] = [coordinates[0], coordinates[coordinates.length - 1]];
+    if (first[0] !== last[0] || first[1] !== last[1]) coordinates.push(first);
+
+    this.occurrRef.push({
+      geo_shape: {
+        [this.resolveField(field)]: {
+          shape: { type: "polygon", coordinates: [coordinates] }
+        }
+      }
+    });
+    return this;
+  }
+
+  /**
+   * Convert a geo point to GeoJSON coordinates
+   * @param point - The geo point, as an object, [lon, lat] or a "lat,lon" string
+   * @returns The [lon, lat] coordinates
+   */
+  private toCoordinates(point: GeoPoint): [number, number] {
+    if (Array.isArray(point)) return point;
+    if (typeof point === "string") {
+      const [lat, lon] = point.split(",").map(Number);
+      if (isNaN(lat) || isNaN(lon)) throw new Error(`Invalid geo point: ${point}`);
+      return [lon, lat];
+    }
+    return [point.lon, point.lat];
+  }
+
+  /**
+   * Add a nested clause to the query, to match the nested documents of a nested field
+   * @param path - The nested field path
+   * @param build - Adds the clauses of the nested documents to a bool query, with the field names relative to the path
+   * (e.g. `sku` for `items.sku`)
+   * @param options - Nested query options, the inner hits fields are relative to the path too
+   * @returns this
+   *
+   * @example
+   * query.addNested('items', nested => nested.filter().addTerm('sku', 'pen').addRange('quantity', { gte: 2 }),
+   *   { innerHits: { size: 3 } });
+   */
+  addNested<TPath extends DocumentField<TDoc>>(
+    path: TPath,
+    build: (query: BoolQuery<NestedDocument<TDoc, TPath>>) => void,
+    { scoreMode, innerHits, ignoreUnmapped }: NestedQueryOptions<NestedDocument<TDoc, TPath>> = {}
+  ): this {
+    if (!path) throw new Error("Path is required");
+    const nestedPath = this.resolveField(path);
+    const boolRef: Record<string, any> = {};
+    build(new BoolQuery<NestedDocument<TDoc, TPath>>(boolRef, this.base, `${nestedPath}.`));
+
+    const nested: Record<string, any> = { path: nestedPath, query: { bool: boolRef } };
+    if (scoreMode) nested.score_mode = scoreMode;
+    if (ignoreUnmapped !== undefined) nested.ignore_unmapped = ignoreUnmapped;
+    if (innerHits) {
+      const { name, size, from, sort, fields } = innerHits === true ? {} : innerHits;
+      nested.inner_hits = {};
+      if (name) nested.inner_hits.name = name;
+      if (size !== undefined) nested.inner_hits.size = size;
+      if (from !== undefined) nested.inner_hits.from = from;
+      if (sort?.length) {
+        nested.inner_hits.sort = sort.map(clause =>
+          Object.fromEntries(Object.entries(clause).map(([field, order]) => [`${nestedPath}.${field}`, order]))
+        );
+      }
+      if (fields?.length) nested.inner_hits._source = fields.map(field => `${nestedPath}.${field}`);
+    }
+
+    this.occurrRef.push({ nested });
+    return this;
+  }
+
   /**
    * Add a custom clause to the query
    * @param clause - The custom query clause
@@ -255,9 +594,9 @@ export class OccurrenceQuery {
    * Create a nested bool query
    * @returns BoolQuery
    */
-  bool(): BoolQuery {
+  bool(): BoolQuery<TDoc> {
     const boolRef: Record<string, any> = {};
     this.occurrRef.push({ bool: boolRef });
-    return new BoolQuery(boolRef, this.base);
+    return new BoolQuery<TDoc>(boolRef, this.base, this.fieldPrefix);
   }
 } 
\ No newline at end of file
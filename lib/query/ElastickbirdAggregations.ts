@@ -0,0 +1,299 @@
+import {
+  AggregationBucket,
+  BucketAggregationResult,
+  SingleBucketAggregationResult,
+  DocumentField
+} from '../types';
+import { ElastickbirdModel } from '../model/ElastickbirdModel';
+import { ElastickbirdQuery } from './ElastickbirdQuery';
+import { toSnakeCaseParameters } from '../utils/Parameters';
+
+type AggregationKind =
+  'metric' | 'terms' | 'date_histogram' | 'range' | 'filter' | 'nested' | 'reverse_nested';
+
+interface AggregationDefinition {
+  kind: AggregationKind;
+  aggregation: Record<string, any>;
+  subAggregations?: ElastickbirdAggregations<any, any>;
+}
+
+type SubAggregationsBuilder<TDoc, TSub> =
+  (aggs: ElastickbirdAggregations<TDoc>) => ElastickbirdAggregations<TDoc, TSub>;
+
+type WithAggregation<TDoc, TResults, TName extends string, TResult> =
+  ElastickbirdAggregations<TDoc, TResults & { [K in TName]: TResult }>;
+
+/**
+ * Aggregation Builder
+ * @description It builds the `aggs` of a search request and normalizes the aggregations of the response:
+ * metrics resolve to their value, bucket aggregations to `{ buckets: [{ key, count, aggs }] }` and
+ * single bucket aggregations (filter, nested, reverse_nested) to `{ count, aggs }`.
+ * The result type is accumulated as aggregations are added, so sub-aggregation builders must return the builder.
+ *
+ * @example
+ * query.addAggregations(aggs => aggs
+ *   .terms('byStatus', 'status', { size: 5 }, sub => sub.avg('avgAge', 'age'))
+ *   .cardinality('authors', 'authorId'));
+ */
+export class ElastickbirdAggregations<TDoc = any, TResults = {}> {
+  private model: ElastickbirdModel<TDoc>;
+  private definitions: Map<string, AggregationDefinition> = new Map();
+
+  constructor({ model }: { model: ElastickbirdModel<TDoc> }) {
+    this.model = model;
+  }
+
+  private add(
+    name: string,
+    kind: AggregationKind,
+    aggregation: Record<string, any>,
+    buildSubAggregations?: SubAggregationsBuilder<TDoc, any>
+  ): any {
+    if (!name) throw new Error("Aggregation name is required");
+    if (this.definitions.has(name)) throw new Error(`Aggregation ${name} is already defined`);
+
+    const subAggregations = buildSubAggregations?.(new ElastickbirdAggregations<TDoc>({ model: this.model }));
+    this.definitions.set(name, { kind, aggregation, subAggregations });
+    return this;
+  }
+
+  private metric(name: string, type: string, field: string): any {
+    if (!field) throw new Error("Field is required");
+    return this.add(name, 'metric', { [type]: { field } });
+  }
+
+  private normalizeBucket(bucket: any, subAggregations?: ElastickbirdAggregations<any, any>): AggregationBucket {
+    const result: AggregationBucket = {
+      key: bucket.key,
+      count: bucket.doc_count,
+      aggs: subAggregations ? subAggregations.normalize(bucket) : {}
+    };
+    if (bucket.key_as_string !== undefined) result.keyAsString = bucket.key_as_string;
+    if (bucket.from !== undefined) result.from = bucket.from;
+    if (bucket.to !== undefined) result.to = bucket.to;
+    return result;
+  }
+
+  /**
+   * Add a terms aggregation
+   * @param name - The aggregation name
+   * @param field - The field name
+   * @param options - Terms options (size, order, minDocCount, missing, include, exclude...)
+   * @param subAggregations - Builds the sub-aggregations of each bucket
+   * @returns this
+   */
+  terms<TName extends string, TSub = {}>(
+    name: TName,
+    field: DocumentField<TDoc>,
+    options: {
+      size?: number;
+      order?: Record<string, 'asc' | 'desc'>;
+      minDocCount?: number;
+      missing?: any;
+      include?: string | string[];
+      exclude?: string | string[];
+      [key: string]: any;
+    } = {},
+    subAggregations?: SubAggregationsBuilder<TDoc, TSub>
+  ): WithAggregation<TDoc, TResults, TName, BucketAggregationResult<TSub>> {
+    if (!field) throw new Error("Field is required");
+    return this.add(name, 'terms', { terms: { field, ...toSnakeCaseParameters(options) } }, subAggregations);
+  }
+
+  /**
+   * Add a date histogram aggregation
+   * @param name - The aggregation name
+   * @param field - The date field name
+   * @param options - Date histogram options (calendarInterval or fixedInterval, format, timeZone, minDocCount...)
+   * @param subAggregations - Builds the sub-aggregations of each bucket
+   * @returns this
+   */
+  dateHistogram<TName extends string, TSub = {}>(
+    name: TName,
+    field: DocumentField<TDoc>,
+    options: {
+      calendarInterval?: string;
+      fixedInterval?: string;
+      format?: string;
+      timeZone?: string;
+      minDocCount?: number;
+      extendedBounds?: { min: any; max: any };
+      [key: string]: any;
+    },
+    subAggregations?: SubAggregationsBuilder<TDoc, TSub>
+  ): WithAggregation<TDoc, TResults, TName, BucketAggregationResult<TSub>> {
+    if (!field) throw new Error("Field is required");
+    if (!options?.calendarInterval && !options?.fixedInterval) {
+      throw new Error("calendarInterval or fixedInterval is required");
+    }
+    return this.add(name, 'date_histogram', { date_histogram: { field, ...toSnakeCaseParameters(options) } }, subAggregations);
+  }
+
+  /**
+   * Add a range aggregation
+   * @param name - The aggregation name
+   * @param field - The field name
+   * @param ranges - The ranges, `from` is inclusive and `to` exclusive
+   * @param subAggregations - Builds the sub-aggregations of each bucket
+   * @returns this
+   */
+  range<TName extends string, TSub = {}>(
+    name: TName,
+    field: DocumentField<TDoc>,
+    ranges: Array<{ key?: string; from?: number | string; to?: number | string }>,
+    subAggregations?: SubAggregationsBuilder<TDoc, TSub>
+  ): WithAggregation<TDoc, TResults, TName, BucketAggregationResult<TSub>> {
+    if (!field) throw new Error("Field is required");
+    if (!ranges?.length) throw new Error("At least one range is required");
+    return this.add(name, 'range', { range: { field, ranges } }, subAggregations);
+  }
+
+  /**
+   * Add a sum aggregation
+   * @param name - The aggregation name
+   * @param field - The field name
+   * @returns this
+   */
+  sum<TName extends string>(name: TName, field: DocumentField<TDoc>): WithAggregation<TDoc, TResults, TName, number | null> {
+    return this.metric(name, 'sum', field);
+  }
+
+  /**
+   * Add an avg aggregation
+   * @param name - The aggregation name
+   * @param field - The field name
+   * @returns this
+   */
+  avg<TName extends string>(name: TName, field: DocumentField<TDoc>): WithAggregation<TDoc, TResults, TName, number | null> {
+    return this.metric(name, 'avg', field);
+  }
+
+  /**
+   * Add a min aggregation
+   * @param name - The aggregation name
+   * @param field - The field name
+   * @returns this
+   */
+  min<TName extends string>(name: TName, field: DocumentField<TDoc>): WithAggregation<TDoc, TResults, TName, number | null> {
+    return this.metric(name, 'min', field);
+  }
+
+  /**
+   * Add a max aggregation
+   * @param name - The aggregation name
+   * @param field - The field name
+   * @returns this
+   */
+  max<TName extends string>(name: TName, field: DocumentField<TDoc>): WithAggregation<TDoc, TResults, TName, number | null> {
+    return this.metric(name, 'max', field);
+  }
+
+  /**
+   * Add a cardinality (approximate distinct count) aggregation
+   * @param name - The aggregation name
+   * @param field - The field name
+   * @returns this
+   */
+  cardinality<TName extends string>(name: TName, field: DocumentField<TDoc>): WithAggregation<TDoc, TResults, TName, number> {
+    return this.metric(name, 'cardinality', field);
+  }
+
+  /**
+   * Add a filter aggregation
+   * @param name - The aggregation name
+   * @param buildFilter - Adds the filter clauses to a query builder
+   * @param subAggregations - Builds the sub-aggregations of the filtered documents
+   * @returns this
+   */
+  filter<TName extends string, TSub = {}>(
+    name: TName,
+    buildFilter: (query: ElastickbirdQuery<TDoc>) => void,
+    subAggregations?: SubAggregationsBuilder<TDoc, TSub>
+  ): WithAggregation<TDoc, TResults, TName, SingleBucketAggregationResult<TSub>> {
+    const query = this.model.query();
+    buildFilter(query);
+    return this.add(name, 'filter', { filter: query.build().query }, subAggregations);
+  }
+
+  /**
+   * Add a nested aggregation, to aggregate the fields of nested documents
+   * @param name - The aggregation name
+   * @param path - The nested field path
+   * @param subAggregations - Builds the sub-aggregations of the nested documents
+   * @returns this
+   */
+  nested<TName extends string, TSub = {}>(
+    name: TName,
+    path: DocumentField<TDoc>,
+    subAggregations: SubAggregationsBuilder<TDoc, TSub>
+  ): WithAggregation<TDoc, TResults, TName, SingleBucketAggregationResult<TSub>> {
+    if (!path) throw new Error("Path is required");
+    return this.add(name, 'nested', { nested: { path } }, subAggregations);
+  }
+
+  /**
+   * Add a reverse nested aggregation, to aggregate the parent documents from a nested aggregation
+   * @param name - The aggregation name
+   * @param subAggregations - Builds the sub-aggregations of the parent documents
+   * @param options - Reverse nested options
+   * @param options.path - The nested path to join back to, the root document by default
+   * @returns this
+   */
+  reverseNested<TName extends string, TSub = {}>(
+    name: TName,
+    subAggregations: SubAggregationsBuilder<TDoc, TSub>,
+    { path }: { path?: DocumentField<TDoc> } = {}
+  ): WithAggregation<TDoc, TResults, TName, SingleBucketAggregationResult<TSub>> {
+    return this.add(name, 'reverse_nested', { reverse_nested: path ? { path } : {} }, subAggregations);
+  }
+
+  /**
+   * Check if any aggregation has been added
+   * @returns true if there are no aggregations
+   */
+  isEmpty(): boolean {
+    return !this.definitions.size;
+  }
+
+  /**
+   * Build the aggregations of the search request
+   * @returns The Elasticsearch `aggs` object
+   */
+  build(): Record<string, any> {
+    const aggs: Record<string, any> = {};
+    for (const [name, { aggregation, subAggregations }] of this.definitions) {
+      aggs[name] = { ...aggregation };
+      if (subAggregations && !subAggregations.isEmpty()) aggs[name].aggs = subAggregations.build();
+    }
+    return aggs;
+  }
+
+  /**
+   * Normalize the aggregations of a search response
+   * @param aggregations - The Elasticsearch response aggregations (or bucket)
+   * @returns The normalized aggregation results by name
+   */
+  normalize(aggregations: Record<string, any> = {}): TResults {
+    const results: Record<string, any> = {};
+    for (const [name, { kind, subAggregations }] of this.definitions) {
+      const aggregation = aggregations[name];
+      if (!aggregation) continue;
+
+      if (kind === 'metric') {
+        results[name] = aggregation.value ?? null;
+      } else if (kind === 'filter' || kind === 'nested' || kind === 'reverse_nested') {
+        results[name] = {
+          count: aggregation.doc_count,
+          aggs: subAggregations ? subAggregations.normalize(aggregation) : {}
+        };
+      } else {
+        const result: BucketAggregationResult = {
+          buckets: aggregation.buckets.map((bucket: any) => this.normalizeBucket(bucket, subAggregations))
+        };
+        if (aggregation.sum_other_doc_count !== undefined) result.otherCount = aggregation.sum_other_doc_count;
+        results[name] = result;
+      }
+    }
+    return results as TResults;
+  }
+}
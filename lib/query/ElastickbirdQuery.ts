@@ -1,7 +1,43 @@
 import { BoolQuery, OccurrenceQuery } from './BoolQuery';
 import { ElastickbirdFilterRules } from '../utils/ElastickbirdFilterRules';
-import { QueryBuilderOptions } from '../types';
+import {
+  QueryBuilderOptions,
+  SearchResult,
+  SearchHit,
+  SearchHitMetadata,
+  SearchRow,
+  SearchOptions,
+  HighlightOptions,
+  AggregationsResult,
+  FacetDefinition,
+  FacetValue,
+  FacetResult,
+  IterateOptions,
+  CursorOptions,
+  NestedDocument,
+  NestedQueryOptions,
+  KnnOptions,
+  MultiMatchOptions,
+  MatchPhraseOptions,
+  MatchPhrasePrefixOptions,
+  TermLevelOptions,
+  RegexpOptions,
+  FuzzyOptions,
+  TermsSetOptions,
+  GeoPoint,
+  DistanceUnit,
+  ExplainResult,
+  SearchProfile,
+  DocumentField,
+  SortField
+} from '../types';
 import { ElastickbirdModel } from '../model/ElastickbirdModel';
+import { ElastickbirdAggregations } from './ElastickbirdAggregations';
+import { ElastickbirdScoring } from './ElastickbirdScoring';
+import { decodeCursor } from '../utils/Cursor';
+
+// prefix of the facet aggregation names, to keep them apart from the user aggregations
+const FACET_AGGREGATION_PREFIX = "facet__";
 
 /**
  * Elasticsearch Query Builder
@@ -20,59 +56,127 @@ import { ElastickbirdModel } from '../model/ElastickbirdModel';
  * It's recommended to start the query with the routing field to ensure the routing value is set correctly.
  * Note: The routing value will be used only if the routing field is set in the constructor.
  */
-export class ElastickbirdQuery {
-  private model: ElastickbirdModel;
+export class ElastickbirdQuery<TDoc = any, TAggs = {}> {
+  private model: ElastickbirdModel<TDoc>;
   private query: { bool: Record<string, any> };
-  private boolQueryBuilder: BoolQuery;
-  private defaultOccurrence: OccurrenceQuery;
+  private boolQueryBuilder: BoolQuery<TDoc>;
+  private defaultOccurrence: OccurrenceQuery<TDoc>;
   private size: number;
   private sort: any[];
   private searchAfter: any[];
   private searchAfterDelimiter?: string;
+  private cursorOptions: CursorOptions;
+  private pit?: { id: string; keep_alive: string };
   private from: number;
-  private sortRules: Record<string, (query: any, order: string) => void>;
+  private sortRules: Record<string, (query: any, order: string, ...args: any[]) => void>;
+  private sortValueFields: Record<string, number> = {};
   private filterRules: ElastickbirdFilterRules;
   private routing?: string;
   private routingRules?: Record<string, (value: any) => string>;
   private routingValue?: string;
   private refresh?: boolean | string;
   private script?: any;
+  private highlight?: Record<string, any>;
+  private aggregations?: ElastickbirdAggregations<TDoc, TAggs>;
+  private scoringBuilder?: ElastickbirdScoring<TDoc>;
+  private knnClauses: Record<string, any>[] = [];
+  private facets: Record<string, FacetDefinition>;
+  private facetNames: string[] = [];
+  private facetSelections: Record<string, FacetValue[]> = {};
 
   // Dynamic method declarations for bound methods
-  public addTerm!: (field: string, value: any) => this;
-  public addTerms!: (field: string, values: any[]) => this;
-  public addMatch!: (field: string, value: any) => this;
-  public addExists!: (field: string) => this;
-  public addRange!: (field: string, query: any) => this;
+  public addTerm!: (field: DocumentField<TDoc>, value: any) => this;
+  public addTerms!: (field: DocumentField<TDoc>, values: any[]) => this;
+  public addMatch!: (field: DocumentField<TDoc>, value: any) => this;
+  public addExists!: (field: DocumentField<TDoc>) => this;
+  public addRange!: (field: DocumentField<TDoc>, query: any) => this;
+  public addMultiMatch!: (
+    query: string,
+    fields: DocumentField<TDoc>[] | Partial<Record<DocumentField<TDoc>, number>>,
+    options?: MultiMatchOptions
+  ) => this;
+  public addMatchPhrase!: (field: DocumentField<TDoc>, query: string, options?: MatchPhraseOptions) => this;
+  public addMatchPhrasePrefix!: (field: DocumentField<TDoc>, query: string, options?: MatchPhrasePrefixOptions) => this;
+  public addPrefix!: (field: DocumentField<TDoc>, value: string, options?: TermLevelOptions) => this;
+  public addWildcard!: (field: DocumentField<TDoc>, value: string, options?: TermLevelOptions) => this;
+  public addRegexp!: (field: DocumentField<TDoc>, value: string, options?: RegexpOptions) => this;
+  public addFuzzy!: (field: DocumentField<TDoc>, value: string, options?: FuzzyOptions) => this;
+  public addIds!: (ids: Array<string | number>) => this;
+  public addTermsSet!: (field: DocumentField<TDoc>, terms: any[], options: TermsSetOptions<TDoc>) => this;
+  public addNested!: <TPath extends DocumentField<TDoc>>(
+    path: TPath,
+    build: (query: BoolQuery<NestedDocument<TDoc, TPath>>) => void,
+    options?: NestedQueryOptions<NestedDocument<TDoc, TPath>>
+  ) => this;
+  public addGeoDistance!: (
+    field: DocumentField<TDoc>,
+    origin: GeoPoint,
+    distance: string | number,
+    options?: { distanceType?: 'arc' | 'plane' }
+  ) => this;
+  public addGeoBoundingBox!: (field: DocumentField<TDoc>, box: { topLeft: GeoPoint; bottomRight: GeoPoint }) => this;
+  public addGeoPolygon!: (field: DocumentField<TDoc>, points: GeoPoint[]) => this;
   public addCustomClause!: (clause: any) => this;
-  public addQueryString!: (query: string, options?: any) => this;
+  public addQueryString!: (query: string, options?: {
+    fields?: DocumentField<TDoc>[];
+    defaultOperator?: string;
+    prefixLastWord?: boolean;
+  }) => this;
   public applyFilters!: (filters?: any) => this;
-  public must!: () => OccurrenceQuery;
-  public should!: (options?: { minimumShouldMatch?: number }) => OccurrenceQuery;
-  public filter!: () => OccurrenceQuery;
-  public mustNot!: () => OccurrenceQuery;
+  public must!: () => OccurrenceQuery<TDoc>;
+  public should!: (options?: { minimumShouldMatch?: number }) => OccurrenceQuery<TDoc>;
+  public filter!: () => OccurrenceQuery<TDoc>;
+  public mustNot!: () => OccurrenceQuery<TDoc>;
 
   readonly OCCURRENCE_TYPES: string[] = ["must", "should", "filter", "mustNot"];
   readonly OCCURRENCE_QUERY_METHODS: string[] = [
     "addTerm",
     "addTerms",
     "addMatch",
+    "addMultiMatch",
+    "addMatchPhrase",
+    "addMatchPhrasePrefix",
+    "addPrefix",
+    "addWildcard",
+    "addRegexp",
+    "addFuzzy",
+    "addIds",
+    "addTermsSet",
     "addExists",
     "addRange",
+    "addNested",
+    "addGeoDistance",
+    "addGeoBoundingBox",
+    "addGeoPolygon",
     "addCustomClause",
     "addQueryString",
     "applyFilters"
   ];
   readonly BASE_QUERY_METHODS: string[] = [
     "addSort",
+    "addGeoDistanceSort",
     "applySortRule",
     "setSearchAfter",
+    "setCursor",
+    "setPointInTime",
     "setSize",
     "setFrom",
     "setRouting",
     "setRefresh",
     "setScript",
+    "setHighlight",
+    "addAggregations",
+    "scoring",
+    "knn",
+    "addFacets",
+    "setFacetSelections",
     "search",
+    "iterate",
+    "iteratePages",
+    "count",
+    "exists",
+    "explain",
+    "profile",
     "update",
     "delete",
     "build"
@@ -85,11 +189,11 @@ export class ElastickbirdQuery {
    */
   constructor({
     model
-  }: QueryBuilderOptions) {
+  }: QueryBuilderOptions<TDoc>) {
     this.model = model;
     this.query = { bool: {} };
     // create the base bool query builder
-    this.boolQueryBuilder = new BoolQuery(this.query.bool, this);
+    this.boolQueryBuilder = new BoolQuery<TDoc>(this.query.bool, this);
     // create the default occurrence (filter) query builder
     this.defaultOccurrence = this.boolQueryBuilder.filter();
     // default values
@@ -99,10 +203,12 @@ export class ElastickbirdQuery {
     this.searchAfter = [];
     // set options
     this.searchAfterDelimiter = model.getSearchAfterDelimiter() || "~";
+    this.cursorOptions = model.getCursorOptions();
     this.sortRules = model.getSortRules() || {};
     this.filterRules = model.getFilterRules() || new ElastickbirdFilterRules();
     this.routing = model.getRouting();
     this.routingRules = model.getRoutingRules() || {};
+    this.facets = model.getFacets() || {};
 
     this.bindMethods();
   }
@@ -122,9 +228,10 @@ export class ElastickbirdQuery {
   /**
    * Apply a sort rule by ID
    * @param ruleId - The sort rule ID, optionally prefixed with +/- for order
+   * @param args - Extra arguments passed to the sort rule after the order, e.g. the origin of a distance sort
    * @returns this
    */
-  applySortRule(ruleId: string): this {
+  applySortRule(ruleId: string, ...args: any[]): this {
     if (!ruleId) return this;
     let order: string = "asc";
     if (ruleId.startsWith("-")) {
@@ -135,7 +242,7 @@ export class ElastickbirdQuery {
       ruleId = ruleId.substring(1);
     }
     const sortRule = this.sortRules[ruleId];
-    if (sortRule) sortRule(this, order);
+    if (sortRule) sortRule(this, order, ...args);
     return this;
   }
 
@@ -167,12 +274,46 @@ export class ElastickbirdQuery {
    * @param order - Sort order (asc|desc)
    * @returns this
    */
-  addSort(field: string, order: string = "asc"): this {
+  addSort(field: SortField<TDoc>, order: string = "asc"): this {
     if (!field) throw new Error("Field is required");
     this.sort.push({ [field]: order });
     return this;
   }
 
+  /**
+   * Add a geo distance sort clause
+   * @param field - The geo_point field name
+   * @param origin - The point to compute the distances from
+   * @param unit - The distance unit (default: km)
+   * @param options - Sort options
+   * @param options.order - Sort order (asc|desc)
+   * @param options.distanceType - `arc` (default) or `plane`
+   * @param options.distanceField - Merge the computed distance into each search row under this field
+   * @returns this
+   */
+  addGeoDistanceSort(
+    field: DocumentField<TDoc>,
+    origin: GeoPoint,
+    unit: DistanceUnit = "km",
+    {
+      order = "asc",
+      distanceType,
+      distanceField
+    }: {
+      order?: string;
+      distanceType?: 'arc' | 'plane';
+      distanceField?: string;
+    } = {}
+  ): this {
+    if (!field) throw new Error("Field is required");
+    if (!origin) throw new Error("Origin is required");
+    const geoDistance: Record<string, any> = { [field]: origin, order, unit };
+    if (distanceType) geoDistance.distance_type = distanceType;
+    if (distanceField) this.sortValueFields[distanceField] = this.sort.length;
+    this.sort.push({ _geo_distance: geoDistance });
+    return this;
+  }
+
   /**
    * Set the searchAfter value
    * @param searchAfter - The search after value
@@ -186,6 +327,39 @@ export class ElastickbirdQuery {
     return this;
   }
 
+  /**
+   * Continue from the `cursor` of a previous search result.
+   * Opaque cursors restore the typed sort values and the point in time they were created with,
+   * legacy cursors are split with the searchAfterDelimiter (see `setSearchAfter()`).
+   * The query must use the same sort as the query that created the cursor.
+   * @param cursor - The cursor of the previous page
+   * @returns this
+   * @throws InvalidCursorError if the cursor is malformed or its signature doesn't match
+   */
+  setCursor(cursor: string): this {
+    if (!cursor) throw new Error("Cursor is required");
+    if (this.cursorOptions.format === "legacy") return this.setSearchAfter(cursor);
+
+    const { sort, pitId } = decodeCursor(cursor, this.cursorOptions.secret);
+    this.searchAfter = sort;
+    if (pitId) this.setPointInTime(pitId, { keepAlive: this.pit?.keep_alive });
+    return this;
+  }
+
+  /**
+   * Search a point in time instead of the index, see `model.openPointInTime()`.
+   * A `_shard_doc` tiebreaker is added to the sort and the routing is ignored, as it's set on the point in time.
+   * @param id - The point in time ID
+   * @param options - Point in time options
+   * @param options.keepAlive - How long to extend the point in time (default: '1m')
+   * @returns this
+   */
+  setPointInTime(id: string, { keepAlive = "1m" }: { keepAlive?: string } = {}): this {
+    if (!id) throw new Error("Point in time ID is required");
+    this.pit = { id, keep_alive: keepAlive };
+    return this;
+  }
+
   /**
    * Set the size of results to return
    * @param size - Number of results
@@ -227,8 +401,394 @@ export class ElastickbirdQuery {
     return this;
   }
 
-  search(options: any = {}): Promise<any> {
-    return this.model.search(this.build(), options);
+  /**
+   * Set the fields to highlight, the fragments are returned in the `highlights` of the search results
+   * @param fields - The field names, or the highlight options by field name
+   * @param options - Highlight options for all the fields
+   * @returns this
+   */
+  setHighlight(
+    fields: DocumentField<TDoc>[] | Partial<Record<DocumentField<TDoc>, HighlightOptions>>,
+    options: HighlightOptions = {}
+  ): this {
+    const fieldsOptions: Record<string, HighlightOptions | undefined> = Array.isArray(fields)
+      ? Object.fromEntries(fields.map(field => [field, {}]))
+      : fields;
+    if (!Object.keys(fieldsOptions).length) throw new Error("At least one highlight field is required");
+
+    this.highlight = {
+      ...this.buildHighlightOptions(options),
+      fields: Object.fromEntries(
+        Object.entries(fieldsOptions).map(([field, fieldOptions]) => [field, this.buildHighlightOptions(fieldOptions)])
+      )
+    };
+    return this;
+  }
+
+  private buildHighlightOptions({
+    preTags,
+    postTags,
+    fragmentSize,
+    numberOfFragments,
+    requireFieldMatch
+  }: HighlightOptions = {}): Record<string, any> {
+    const highlight: Record<string, any> = {};
+    if (preTags !== undefined) highlight.pre_tags = [preTags].flat();
+    if (postTags !== undefined) highlight.post_tags = [postTags].flat();
+    if (fragmentSize !== undefined) highlight.fragment_size = fragmentSize;
+    if (numberOfFragments !== undefined) highlight.number_of_fragments = numberOfFragments;
+    if (requireFieldMatch !== undefined) highlight.require_field_match = requireFieldMatch;
+    return highlight;
+  }
+
+  /**
+   * Add aggregations to the query, the search results get them normalized in `aggs`
+   * @param build - Adds the aggregations to the builder, and returns it
+   * @returns this, typed with the aggregation results
+   */
+  addAggregations<TNewAggs>(
+    build: (aggs: ElastickbirdAggregations<TDoc, TAggs>) => ElastickbirdAggregations<TDoc, TNewAggs>
+  ): ElastickbirdQuery<TDoc, TNewAggs> {
+    if (!this.aggregations) {
+      this.aggregations = new ElastickbirdAggregations<TDoc, TAggs>({ model: this.model });
+    }
+    build(this.aggregations);
+    return this as unknown as ElastickbirdQuery<TDoc, TNewAggs>;
+  }
+
+  /**
+   * Add a kNN search on a dense_vector field, the rows get the similarity score in `_score`.
+   * The query clauses are optional: without them the search is a pure kNN search, with them the scores
+   * of both are added (hybrid search), use `boost` and `scoring()` to weight them.
+   * @param options - kNN options
+   * @returns this
+   *
+   * @example
+   * query.knn({ field: 'embedding', queryVector, k: 10, filter: q => q.addTerm('status', 'published') });
+   */
+  knn({
+    field,
+    queryVector,
+    k = 10,
+    numCandidates = Math.max(100, k),
+    filter,
+    similarity,
+    boost
+  }: KnnOptions<TDoc>): this {
+    if (!field) throw new Error("Field is required");
+    if (!queryVector?.length) throw new Error("Query vector is required");
+    if (numCandidates < k) throw new Error("numCandidates must be greater than or equal to k");
+
+    const knn: Record<string, any> = {
+      field,
+      query_vector: queryVector,
+      k,
+      num_candidates: numCandidates
+    };
+    if (filter) {
+      const query = this.model.query();
+      if (typeof filter === "function") filter(query);
+      else query.applyFilters(filter);
+      knn.filter = query.build().query;
+    }
+    if (similarity !== undefined) knn.similarity = similarity;
+    if (boost !== undefined) knn.boost = boost;
+
+    this.knnClauses.push(knn);
+    return this;
+  }
+
+  /**
+   * Check if any clause has been added to the bool query
+   * @returns true if the bool query matches all the documents
+   */
+  private isQueryEmpty(): boolean {
+    return !Object.values(this.query.bool).some(clauses => Array.isArray(clauses) && clauses.length);
+  }
+
+  /**
+   * Tune the relevance, the query is wrapped in a `function_score` query (and a `script_score` query with
+   * `scriptScore()`). Sorts other than `_score` still apply, with the scores tracked in the hits.
+   * @param build - Adds the score functions to the builder
+   * @returns this
+   *
+   * @example
+   * query.scoring(scoring => scoring.decay('gauss', 'publishedAt', { origin: 'now', scale: '30d' }).boostMode('multiply'));
+   */
+  scoring(build: (scoring: ElastickbirdScoring<TDoc>) => void): this {
+    if (!this.scoringBuilder) {
+      this.scoringBuilder = new ElastickbirdScoring<TDoc>({ model: this.model });
+    }
+    build(this.scoringBuilder);
+    return this;
+  }
+
+  private getFacet(name: string): FacetDefinition {
+    const facet = this.facets[name];
+    if (!facet) throw new Error(`Undefined facet: ${name}`);
+    if (facet.filterRule !== undefined && !facet.values?.length) throw new Error(`Facet ${name} requires values with a filter rule`);
+    return facet;
+  }
+
+  /**
+   * Build the filter of a filter rule facet value, the value is the argument of the rule
+   */
+  private buildFacetRuleFilter(filterRule: string, value: FacetValue): any {
+    const query = this.model.query();
+    query.applyFilters([filterRule, value]);
+    return query.build().query;
+  }
+
+  /**
+   * Build the filter of the selected values of a facet, the values are combined with OR
+   */
+  private buildFacetFilter(name: string): any {
+    const facet = this.getFacet(name);
+    const values = this.facetSelections[name];
+    if (facet.filterRule === undefined) return { terms: { [facet.field]: values } };
+
+    return { bool: { should: values.map(value => this.buildFacetRuleFilter(facet.filterRule, value)), minimum_should_match: 1 } };
+  }
+
+  /**
+   * Build the filters of the selected facets, except the excluded one
+   */
+  private buildFacetFilters(excludedName?: string): any[] {
+    return Object.keys(this.facetSelections)
+      .filter(name => name !== excludedName)
+      .map(name => this.buildFacetFilter(name));
+  }
+
+  private buildFacetAggregations(): Record<string, any> {
+    const aggs: Record<string, any> = {};
+    for (const name of this.facetNames) {
+      const facet = this.getFacet(name);
+      // each facet is counted with the selections of the other facets only
+      const filters = this.buildFacetFilters(name);
+      // filter rule facets count one filter per declared value
+      const values = facet.filterRule !== undefined
+        ? {
+          filters: {
+            filters: Object.fromEntries(
+              facet.values.map(value => [String(value), this.buildFacetRuleFilter(facet.filterRule, value)])
+            )
+          }
+        }
+        : { terms: { field: facet.field, size: facet.size ?? 10 } };
+      aggs[FACET_AGGREGATION_PREFIX + name] = {
+        filter: filters.length ? { bool: { filter: filters } } : { match_all: {} },
+        aggs: { values }
+      };
+    }
+    return aggs;
+  }
+
+  private normalizeFacets(aggregations: Record<string, any> = {}): Record<string, FacetResult> {
+    const facets: Record<string, FacetResult> = {};
+    for (const name of this.facetNames) {
+      const facet = this.getFacet(name);
+      const aggregation = aggregations[FACET_AGGREGATION_PREFIX + name]?.values;
+      const buckets: any[] = facet.filterRule !== undefined
+        ? facet.values
+          .map(value => ({ key: value, doc_count: aggregation?.buckets?.[String(value)]?.doc_count || 0 }))
+          .filter(bucket => bucket.doc_count > 0)
+        : aggregation?.buckets || [];
+      const selectedValues = (this.facetSelections[name] || []).map(String);
+      const counts = new Map(buckets.map(bucket => [String(bucket.key_as_string ?? bucket.key), bucket]));
+
+      facets[name] = {
+        // selected values missing from the buckets have no document left with the other selections
+        selected: (this.facetSelections[name] || []).map(value => ({
+          value,
+          count: counts.get(String(value))?.doc_count || 0,
+          selected: true
+        })),
+        available: buckets
+          .filter(bucket => !selectedValues.includes(String(bucket.key_as_string ?? bucket.key)))
+          .map(bucket => ({ value: bucket.key_as_string ?? bucket.key, count: bucket.doc_count, selected: false }))
+      };
+    }
+    return facets;
+  }
+
+  /**
+   * Add facets defined in the schema, their counts are returned in the `facets` of the search results
+   * @param names - The facet names, all the schema facets by default
+   * @returns this
+   */
+  addFacets(names: string[] = Object.keys(this.facets)): this {
+    names.forEach(name => {
+      this.getFacet(name);
+      if (!this.facetNames.includes(name)) this.facetNames.push(name);
+    });
+    return this;
+  }
+
+  /**
+   * Set the selected facet values, they filter the hits through `post_filter`, so the counts of
+   * each facet ignore its own selection while the selections of the other facets still apply
+   * @param selections - The selected values by facet name
+   * @returns this
+   */
+  setFacetSelections(selections: Record<string, FacetValue | FacetValue[] | undefined>): this {
+    this.facetSelections = {};
+    for (const [name, value] of Object.entries(selections)) {
+      const facet = this.getFacet(name);
+      let values = value === undefined ? [] : [value].flat();
+      if (facet.filterRule !== undefined) {
+        // selections of a filter rule facet are keyed by its declared values
+        values = values.map(value => {
+          const declared = facet.values.find(declared => String(declared) === String(value));
+          if (declared === undefined) throw new Error(`Undefined value of facet ${name}: ${value}`);
+          return declared;
+        });
+      }
+      if (values.length) this.facetSelections[name] = values;
+    }
+    return this;
+  }
+
+  /**
+   * Execute the query as a search
+   * @param options - Search options, see `ElastickbirdModel.search()`
+   * @returns The search results
+   */
+  search(
+    options: SearchOptions<TDoc> & { rowFormat: 'hit' }
+  ): Promise<SearchResult<SearchHit<TDoc>> & AggregationsResult<TAggs>>;
+  search<TMetadata extends SearchHitMetadata = never>(
+    options?: SearchOptions<TDoc, TMetadata> & { rowFormat?: 'source' }
+  ): Promise<SearchResult<SearchRow<TDoc, TMetadata>> & AggregationsResult<TAggs>>;
+  async search(options: SearchOptions<TDoc> = {}): Promise<SearchResult<any> & { aggs?: TAggs }> {
+    if (Object.keys(this.sortValueFields).length) {
+      options = { ...options, sortValues: { ...this.sortValueFields, ...options.sortValues } };
+    }
+    if (this.knnClauses.length && !options.metadata?.includes("_score")) {
+      options = { ...options, metadata: [...(options.metadata || []), "_score"] };
+    }
+    const result: SearchResult<any> & { aggs?: TAggs } =
+      await this.model.search(this.build(), options as SearchOptions<TDoc> & { rowFormat: 'hit' });
+    if (this.aggregations && !this.aggregations.isEmpty()) {
+      result.aggs = this.aggregations.normalize(result.aggregations);
+    }
+    if (this.facetNames.length) {
+      result.facets = this.normalizeFacets(result.aggregations);
+    }
+    return result;
+  }
+
+  /**
+   * Iterate over the pages of all the matching documents.
+   * It opens a point in time, sorts with a `_shard_doc` tiebreaker and pages with `search_after`,
+   * the point in time is closed when the iteration ends, including on early `break`.
+   * @param options - Iterate options
+   * @returns An async iterable of document pages
+   */
+  async *iteratePages({
+    batchSize = 1000,
+    keepAlive = '1m',
+    fields
+  }: IterateOptions<TDoc> = {}): AsyncGenerator<TDoc[]> {
+    const { routing, ...request } = this.build();
+    // paging options, aggregations and highlighting don't apply to the iteration
+    for (const key of ["from", "search_after", "refresh", "script", "aggs", "highlight"]) delete request[key];
+
+    const sort = [...(request.sort || [])];
+    if (!sort.some(clause => Object.keys(clause).includes("_shard_doc"))) {
+      sort.push({ _shard_doc: "asc" });
+    }
+
+    let pitId = await this.model.openPointInTime({ keepAlive, routing });
+    try {
+      let searchAfter: any[] | undefined;
+      while (true) {
+        const pageRequest: any = {
+          ...request,
+          sort,
+          size: batchSize,
+          pit: { id: pitId, keep_alive: keepAlive },
+          track_total_hits: false
+        };
+        if (searchAfter) pageRequest.search_after = searchAfter;
+
+        const result = await this.model.search(pageRequest, { fields, rowFormat: "hit" });
+        if (result.pit_id) pitId = result.pit_id;
+        if (!result.rows.length) return;
+
+        yield result.rows.map(hit => hit._source);
+
+        if (result.rows.length < batchSize) return;
+        searchAfter = result.rows[result.rows.length - 1].sort;
+      }
+    } finally {
+      await this.model.closePointInTime(pitId);
+    }
+  }
+
+  /**
+   * Iterate over all the matching documents, see `iteratePages()`
+   * @param options - Iterate options
+   * @returns An async iterable of documents
+   *
+   * @example
+   * for await (const user of User.query().addTerm('status', 'active').iterate({ batchSize: 500 })) {
+   *   await process(user);
+   * }
+   */
+  async *iterate(options: IterateOptions<TDoc> = {}): AsyncGenerator<TDoc> {
+    for await (const page of this.iteratePages(options)) {
+      yield* page;
+    }
+  }
+
+  /**
+   * Build the query and routing of the count and explain requests.
+   * The facet selections are applied to the query, as they filter the search hits through `post_filter`.
+   * @returns The query and routing
+   * @throws Error if the query has kNN clauses, these APIs only take a query
+   */
+  private buildQueryRequest(): { query: any; routing?: string } {
+    if (this.knnClauses.length) throw new Error("kNN clauses are only supported by search");
+    const { query, post_filter } = this.build();
+    return {
+      query: post_filter ? { bool: { must: [query], filter: [post_filter] } } : query,
+      routing: this.routingValue
+    };
+  }
+
+  /**
+   * Count the matching documents with the count API
+   * @returns The number of matching documents
+   */
+  count(): Promise<number> {
+    return this.model.count(this.buildQueryRequest());
+  }
+
+  /**
+   * Check if any document matches, without fetching hits
+   * @returns True if at least one document matches
+   */
+  exists(): Promise<boolean> {
+    return this.model.existsByQuery(this.buildQueryRequest());
+  }
+
+  /**
+   * Explain how a document matches the query and how its score is computed
+   * @param id - The document ID
+   * @returns The explain result
+   */
+  explain(id: string): Promise<ExplainResult> {
+    return this.model.explain({ id, ...this.buildQueryRequest() });
+  }
+
+  /**
+   * Search with profiling, to find the slow query clauses and aggregations
+   * @param options - Search options
+   * @returns The search results with the timings by shard in `profile`
+   */
+  async profile(options: SearchOptions<TDoc> = {}): Promise<SearchResult<any> & { profile: SearchProfile }> {
+    const result = await this.model.search({ ...this.build(), profile: true }, options as SearchOptions<TDoc> & { rowFormat: 'hit' });
+    return { ...result, profile: result.profile || { shards: [] } };
   }
 
   updateByQuery(options: any = {}): Promise<any> {
@@ -256,8 +816,20 @@ export class ElastickbirdQuery {
       from: this.from
     };
 
+    if (this.scoringBuilder && !this.scoringBuilder.isEmpty()) {
+      result.query = this.scoringBuilder.build(this.query);
+    }
+
+    if (this.knnClauses.length) {
+      result.knn = this.knnClauses.length === 1 ? this.knnClauses[0] : this.knnClauses;
+      // a pure kNN search, an empty bool query would match every document
+      if (result.query === this.query && this.isQueryEmpty()) delete result.query;
+    }
+
     if (this.sort.length) {
       result.sort = this.sort;
+      // scores are only computed for sorts by _score unless tracked
+      if (result.query !== this.query) result.track_scores = true;
     }
 
     if (this.searchAfter.length) {
@@ -265,7 +837,12 @@ export class ElastickbirdQuery {
       delete result.from; // Can't use both from and search_after
     }
 
-    if (this.routingValue) {
+    if (this.pit) {
+      result.pit = this.pit;
+      if (!this.sort.some(clause => Object.keys(clause).includes("_shard_doc"))) {
+        result.sort = [...this.sort, { _shard_doc: "asc" }];
+      }
+    } else if (this.routingValue) {
       result.routing = this.routingValue;
     }
 
@@ -277,6 +854,23 @@ export class ElastickbirdQuery {
       result.script = this.script;
     }
 
+    if (this.highlight) {
+      result.highlight = this.highlight;
+    }
+
+    if (this.aggregations && !this.aggregations.isEmpty()) {
+      result.aggs = this.aggregations.build();
+    }
+
+    if (this.facetNames.length) {
+      result.aggs = { ...result.aggs, ...this.buildFacetAggregations() };
+    }
+
+    const facetFilters = this.buildFacetFilters();
+    if (facetFilters.length) {
+      result.post_filter = { bool: { filter: facetFilters } };
+    }
+
     return result;
   }
 } 
\ No newline at end of file
@@ -0,0 +1,232 @@
+import {
+  DecayFunction,
+  ScoreMode,
+  BoostMode,
+  ScoreFunctionOptions,
+  ScoreScript,
+  DocumentField
+} from '../types';
+import { ElastickbirdModel } from '../model/ElastickbirdModel';
+import { ElastickbirdQuery } from './ElastickbirdQuery';
+
+/**
+ * Scoring Builder
+ * @description It wraps the query of a search in a `function_score` query to tune the relevance
+ * (decay by date or distance, popularity boosts, weights by filter, random order),
+ * and optionally in a `script_score` query as an escape hatch for custom scores.
+ *
+ * @example
+ * query.scoring(scoring => scoring
+ *   .decay('gauss', 'publishedAt', { origin: 'now', scale: '30d', decay: 0.5 })
+ *   .fieldValueFactor('likes', { modifier: 'log1p', factor: 0.1 })
+ *   .weight(2, query => query.addTerm('featured', true))
+ *   .scoreMode('sum')
+ *   .boostMode('multiply'));
+ */
+export class ElastickbirdScoring<TDoc = any> {
+  private model: ElastickbirdModel<TDoc>;
+  private functions: Record<string, any>[] = [];
+  private options: Record<string, any> = {};
+  private script?: { source: string; params?: Record<string, any> };
+  private minimumScore?: number;
+
+  constructor({ model }: { model: ElastickbirdModel<TDoc> }) {
+    this.model = model;
+  }
+
+  private addFunction(fn: Record<string, any>, { filter, weight }: ScoreFunctionOptions<TDoc> = {}): this {
+    if (filter) {
+      const query = this.model.query();
+      filter(query);
+      fn.filter = query.build().query;
+    }
+    if (weight !== undefined) fn.weight = weight;
+    this.functions.push(fn);
+    return this;
+  }
+
+  /**
+   * Add a decay function, the score decreases with the distance of a date, number or geo point field to an origin
+   * @param type - The decay curve (gauss, exp or linear)
+   * @param field - The field name
+   * @param params - Decay parameters
+   * @param params.origin - The value with the full score (e.g. `now` or a geo point)
+   * @param params.scale - The distance from origin + offset where the score is `decay` (e.g. `30d` or `5km`)
+   * @param params.offset - The distance from origin without decay
+   * @param params.decay - The score at `scale` (default: 0.5)
+   * @param options - Function options (filter, weight, multiValueMode)
+   * @returns this
+   */
+  decay(
+    type: DecayFunction,
+    field: DocumentField<TDoc>,
+    { origin, scale, offset, decay }: { origin?: any; scale: string | number; offset?: string | number; decay?: number },
+    { multiValueMode, ...options }: ScoreFunctionOptions<TDoc> & { multiValueMode?: 'min' | 'max' | 'avg' | 'sum' } = {}
+  ): this {
+    if (!["gauss", "exp", "linear"].includes(type)) throw new Error(`Unknown decay function: ${type}`);
+    if (!field) throw new Error("Field is required");
+    if (scale === undefined) throw new Error("Scale is required");
+
+    const params: Record<string, any> = { scale };
+    if (origin !== undefined) params.origin = origin;
+    if (offset !== undefined) params.offset = offset;
+    if (decay !== undefined) params.decay = decay;
+
+    const fn: Record<string, any> = { [field]: params };
+    if (multiValueMode) fn.multi_value_mode = multiValueMode;
+    return this.addFunction({ [type]: fn }, options);
+  }
+
+  /**
+   * Add a field value factor function, the score is computed from a numeric field (e.g. popularity)
+   * @param field - The numeric field name
+   * @param params - Field value factor parameters
+   * @param params.factor - Multiplies the field value (default: 1)
+   * @param params.modifier - Applied to the field value (log1p, sqrt, square...)
+   * @param params.missing - The value of the documents without the field
+   * @param options - Function options (filter, weight)
+   * @returns this
+   */
+  fieldValueFactor(
+    field: DocumentField<TDoc>,
+    {
+      factor,
+      modifier,
+      missing
+    }: {
+      factor?: number;
+      modifier?: 'none' | 'log' | 'log1p' | 'log2p' | 'ln' | 'ln1p' | 'ln2p' | 'square' | 'sqrt' | 'reciprocal';
+      missing?: number;
+    } = {},
+    options: ScoreFunctionOptions<TDoc> = {}
+  ): this {
+    if (!field) throw new Error("Field is required");
+    const params: Record<string, any> = { field };
+    if (factor !== undefined) params.factor = factor;
+    if (modifier) params.modifier = modifier;
+    if (missing !== undefined) params.missing = missing;
+    return this.addFunction({ field_value_factor: params }, options);
+  }
+
+  /**
+   * Add a weight function, to boost the documents matching a filter
+   * @param weight - The weight
+   * @param filter - Adds the filter clauses to a query builder, all the documents by default
+   * @returns this
+   */
+  weight(weight: number, filter?: (query: ElastickbirdQuery<TDoc>) => void): this {
+    return this.addFunction({}, { filter, weight });
+  }
+
+  /**
+   * Add a random score function, e.g. to shuffle the results
+   * @param params - Random score parameters, the same seed returns the same order
+   * @param params.seed - The seed
+   * @param params.field - The field used with the seed (default: `_seq_no`)
+   * @param options - Function options (filter, weight)
+   * @returns this
+   */
+  randomScore(
+    { seed, field }: { seed?: string | number; field?: DocumentField<TDoc> | '_seq_no' } = {},
+    options: ScoreFunctionOptions<TDoc> = {}
+  ): this {
+    const params: Record<string, any> = {};
+    if (seed !== undefined) {
+      params.seed = seed;
+      params.field = field || "_seq_no";
+    }
+    return this.addFunction({ random_score: params }, options);
+  }
+
+  /**
+   * Set how the function scores are combined (default: multiply)
+   * @param mode - The score mode
+   * @returns this
+   */
+  scoreMode(mode: ScoreMode): this {
+    this.options.score_mode = mode;
+    return this;
+  }
+
+  /**
+   * Set how the function score is combined with the query score (default: multiply)
+   * @param mode - The boost mode
+   * @returns this
+   */
+  boostMode(mode: BoostMode): this {
+    this.options.boost_mode = mode;
+    return this;
+  }
+
+  /**
+   * Set the maximum function score
+   * @param maxBoost - The maximum score
+   * @returns this
+   */
+  maxBoost(maxBoost: number): this {
+    this.options.max_boost = maxBoost;
+    return this;
+  }
+
+  /**
+   * Exclude the documents with a lower final score
+   * @param minScore - The minimum score
+   * @returns this
+   */
+  minScore(minScore: number): this {
+    this.minimumScore = minScore;
+    return this;
+  }
+
+  /**
+   * Compute the final score with a script, applied after the functions
+   * @param script - The painless script, `_score` is the score of the wrapped query
+   * @returns this
+   *
+   * @example
+   * scoring.scriptScore({ source: "_score * Math.log(2 + doc['likes'].value) * params.boost", params: { boost: 2 } })
+   */
+  scriptScore(script: ScoreScript): this {
+    this.script = typeof script === "string" ? { source: script } : script;
+    return this;
+  }
+
+  /**
+   * Check if any function or script has been added
+   * @returns true if the scoring doesn't change the query
+   */
+  isEmpty(): boolean {
+    return !this.functions.length && !this.script;
+  }
+
+  /**
+   * Wrap a query in the function_score and script_score queries
+   * @param query - The query to wrap
+   * @returns The scoring query
+   * @throws If scoreMode, boostMode or maxBoost is set without any score function
+   */
+  build(query: any): any {
+    if (!this.functions.length && Object.keys(this.options).length) {
+      throw new Error("scoreMode, boostMode and maxBoost require a score function, the script score replaces the score");
+    }
+
+    let result = query;
+
+    if (this.functions.length) {
+      result = { function_score: { query: result, functions: this.functions, ...this.options } };
+    }
+
+    if (this.script) {
+      result = { script_score: { query: result, script: this.script } };
+    }
+
+    if (this.minimumScore !== undefined) {
+      const [type] = Object.keys(result);
+      if (type === "function_score" || type === "script_score") {
+        result[type].min_score = this.minimumScore;
+      }
+    }
+
+    return result;
+  }
+}
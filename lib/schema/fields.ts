@@ -0,0 +1,189 @@
+import { ARRAY_FIELD } from '../utils/Constants';
+import { toSnakeCaseParameters } from '../utils/Parameters';
+
+interface BaseFieldOptions {
+  index?: boolean;
+  store?: boolean;
+  docValues?: boolean;
+  copyTo?: string | string[];
+  meta?: Record<string, string>;
+  fields?: Record<string, Record<string, any>>;
+}
+
+export interface KeywordFieldOptions extends BaseFieldOptions {
+  ignoreAbove?: number;
+  normalizer?: string;
+  nullValue?: string;
+  eagerGlobalOrdinals?: boolean;
+  similarity?: string;
+  splitQueriesOnWhitespace?: boolean;
+}
+
+export interface TextFieldOptions extends BaseFieldOptions {
+  analyzer?: string;
+  searchAnalyzer?: string;
+  searchQuoteAnalyzer?: string;
+  fielddata?: boolean;
+  indexOptions?: 'docs' | 'freqs' | 'positions' | 'offsets';
+  indexPhrases?: boolean;
+  indexPrefixes?: { min_chars?: number; max_chars?: number };
+  norms?: boolean;
+  positionIncrementGap?: number;
+  similarity?: string;
+  termVector?: string;
+}
+
+export interface NumericFieldOptions extends BaseFieldOptions {
+  coerce?: boolean;
+  ignoreMalformed?: boolean;
+  nullValue?: number;
+}
+
+export interface ScaledFloatFieldOptions extends NumericFieldOptions {
+  scalingFactor: number;
+}
+
+export interface BooleanFieldOptions extends BaseFieldOptions {
+  nullValue?: boolean;
+}
+
+export interface DateFieldOptions extends BaseFieldOptions {
+  format?: string;
+  locale?: string;
+  ignoreMalformed?: boolean;
+  nullValue?: string;
+}
+
+export interface IpFieldOptions extends BaseFieldOptions {
+  ignoreMalformed?: boolean;
+  nullValue?: string;
+}
+
+export interface GeoPointFieldOptions {
+  ignoreMalformed?: boolean;
+  ignoreZValue?: boolean;
+  index?: boolean;
+  nullValue?: string | { lat: number; lon: number };
+}
+
+export interface DenseVectorFieldOptions {
+  dims?: number;
+  elementType?: 'float' | 'byte' | 'bit';
+  /**
+   * Index the vectors for kNN search (default: true)
+   */
+  index?: boolean;
+  similarity?: 'l2_norm' | 'dot_product' | 'cosine' | 'max_inner_product';
+  indexOptions?: {
+    type: 'hnsw' | 'int8_hnsw' | 'int4_hnsw' | 'flat' | 'int8_flat' | 'int4_flat';
+    m?: number;
+    ef_construction?: number;
+    confidence_interval?: number;
+  };
+}
+
+export interface ObjectFieldOptions {
+  dynamic?: boolean | 'strict' | 'runtime';
+  enabled?: boolean;
+}
+
+export interface NestedFieldOptions {
+  dynamic?: boolean | 'strict' | 'runtime';
+  includeInParent?: boolean;
+  includeInRoot?: boolean;
+}
+
+export interface MappingsOptions {
+  dynamic?: boolean | 'strict' | 'runtime';
+  dateDetection?: boolean;
+  numericDetection?: boolean;
+  dynamicTemplates?: Record<string, any>[];
+}
+
+/**
+ * A field mapping of the given type, `null_value` allows `null` in the document type
+ */
+export type FieldMapping<TType extends string, TOptions> = { type: TType } &
+  (TOptions extends { nullValue: {} } ? { null_value: TOptions['nullValue'] } : {});
+
+/**
+ * Builds a field mapping
+ * @param type - The field type
+ * @param options - The builder options
+ * @returns The field mapping
+ */
+function field<TType extends string, TOptions>(type: TType, options?: TOptions): FieldMapping<TType, TOptions> {
+  return { type, ...toSnakeCaseParameters(options as Record<string, any>) } as FieldMapping<TType, TOptions>;
+}
+
+/**
+ * Field builder, it compiles to the `mappings` expected by the schema and yields the document type
+ * through `InferDocument`.
+ *
+ * @example
+ * const mappings = f.mappings({
+ *   id: f.keyword(),
+ *   name: f.text({ analyzer: 'english', fields: { raw: f.keyword() } }),
+ *   tags: f.array(f.keyword()),
+ *   address: f.object({ city: f.keyword({ nullValue: 'unknown' }) })
+ * });
+ * type User = InferDocument<typeof mappings>;
+ */
+export const f = {
+  keyword: <O extends KeywordFieldOptions = {}>(options?: O) => field('keyword', options),
+  text: <O extends TextFieldOptions = {}>(options?: O) => field('text', options),
+  long: <O extends NumericFieldOptions = {}>(options?: O) => field('long', options),
+  integer: <O extends NumericFieldOptions = {}>(options?: O) => field('integer', options),
+  short: <O extends NumericFieldOptions = {}>(options?: O) => field('short', options),
+  byte: <O extends NumericFieldOptions = {}>(options?: O) => field('byte', options),
+  double: <O extends NumericFieldOptions = {}>(options?: O) => field('double', options),
+  float: <O extends NumericFieldOptions = {}>(options?: O) => field('float', options),
+  halfFloat: <O extends NumericFieldOptions = {}>(options?: O) => field('half_float', options),
+  scaledFloat: <O extends ScaledFloatFieldOptions>(options: O) => field('scaled_float', options),
+  boolean: <O extends BooleanFieldOptions = {}>(options?: O) => field('boolean', options),
+  date: <O extends DateFieldOptions = {}>(options?: O) => field('date', options),
+  ip: <O extends IpFieldOptions = {}>(options?: O) => field('ip', options),
+  geoPoint: <O extends GeoPointFieldOptions = {}>(options?: O) => field('geo_point', options),
+  denseVector: <O extends DenseVectorFieldOptions = {}>(options?: O) => field('dense_vector', options),
+
+  /**
+   * Object field
+   * @param properties - The object properties
+   * @param options - Object mapping parameters
+   */
+  object: <const P extends Record<string, any>>(properties: P, options?: ObjectFieldOptions) => ({
+    type: 'object' as const,
+    properties,
+    ...toSnakeCaseParameters(options)
+  }),
+
+  /**
+   * Nested field, the document type is an array of objects
+   * @param properties - The nested object properties
+   * @param options - Nested mapping parameters
+   */
+  nested: <const P extends Record<string, any>>(properties: P, options?: NestedFieldOptions) => ({
+    type: 'nested' as const,
+    properties,
+    ...toSnakeCaseParameters(options)
+  }),
+
+  /**
+   * Marks a field as holding an array of values, the mapping itself is unchanged
+   * @param mapping - The field mapping
+   */
+  array: <M extends Record<string, any>>(mapping: M): M & { [ARRAY_FIELD]: true } => ({
+    ...mapping,
+    [ARRAY_FIELD]: true as const
+  }),
+
+  /**
+   * Root mappings
+   * @param properties - The document properties
+   * @param options - Root mapping parameters
+   */
+  mappings: <const P extends Record<string, any>>(properties: P, options?: MappingsOptions) => ({
+    properties,
+    ...toSnakeCaseParameters(options)
+  })
+};
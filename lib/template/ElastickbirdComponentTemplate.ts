@@ -0,0 +1,81 @@
+import { ElasticsearchClient } from '../client/ElasticsearchClient';
+import { ComponentTemplateOptions } from '../types';
+
+/**
+ * ElastickbirdComponentTemplate - Shared mappings and settings blocks (analyzers, common fields)
+ * that several models can compose through their schema `componentTemplates`.
+ */
+export class ElastickbirdComponentTemplate {
+  private name: string;
+  private mappings: Record<string, any>;
+  private settings: Record<string, any>;
+
+  /**
+   * Creates an instance of ElastickbirdComponentTemplate.
+   * @param options - The component template configuration.
+   */
+  constructor({ name, mappings = { properties: {} }, settings = {} }: ComponentTemplateOptions) {
+    this.name = name;
+    this.mappings = mappings;
+    this.settings = settings;
+  }
+
+  /**
+   * Gets the component template name.
+   * @returns The template name.
+   */
+  getName(): string {
+    return this.name;
+  }
+
+  /**
+   * Gets the mappings defined in the component template.
+   * @returns The mappings.
+   */
+  getMappings(): Record<string, any> {
+    return this.mappings;
+  }
+
+  /**
+   * Gets the settings defined in the component template.
+   * @returns The settings.
+   */
+  getSettings(): Record<string, any> {
+    return this.settings;
+  }
+
+  /**
+   * Creates or updates the component template in Elasticsearch.
+   * @returns `true` if the template was acknowledged.
+   */
+  async put(): Promise<boolean> {
+    const client = ElasticsearchClient.getClient();
+    const { acknowledged } = await client.cluster.putComponentTemplate({
+      name: this.name,
+      template: {
+        mappings: this.mappings,
+        settings: this.settings
+      }
+    });
+    return acknowledged;
+  }
+
+  /**
+   * Checks if the component template exists in Elasticsearch.
+   * @returns `true` if the template exists, `false` otherwise.
+   */
+  async exists(): Promise<boolean> {
+    const client = ElasticsearchClient.getClient();
+    return await client.cluster.existsComponentTemplate({ name: this.name });
+  }
+
+  /**
+   * Deletes the component template from Elasticsearch.
+   * @returns `true` if the deletion was acknowledged.
+   */
+  async delete(): Promise<boolean> {
+    const client = ElasticsearchClient.getClient();
+    const { acknowledged } = await client.cluster.deleteComponentTemplate({ name: this.name });
+    return acknowledged;
+  }
+}
@@ -1,4 +1,7 @@
 import { ElastickbirdModel } from '../model/ElastickbirdModel';
+import { ElastickbirdQuery } from '../query/ElastickbirdQuery';
+import { ElastickbirdComponentTemplate } from '../template/ElastickbirdComponentTemplate';
+import { ARRAY_FIELD } from '../utils/Constants';
 
 export interface ElastickBirdSchema {
   alias: string;
@@ -9,10 +12,152 @@ export interface ElastickBirdSchema {
   routing?: string;
   routingRules?: Record<string, (value: any) => string>;
   filterRules?: any;
-  sortRules?: Record<string, (query: any, order: string) => void>;
+  sortRules?: Record<string, (query: any, order: string, ...args: any[]) => void>;
   searchAfterDelimiter?: string;
+  rollover?: RolloverOptions;
+  componentTemplates?: ElastickbirdComponentTemplate[];
+  validation?: ValidationOptions;
+  hooks?: HooksDefinition;
+  /**
+   * What to do with payload fields missing from the mappings on writes:
+   * `strip` removes them (default), `reject` fails the operation and `allow` sends them as they are.
+   * Objects with `dynamic: strict` in the mappings always reject them.
+   */
+  unmappedFields?: UnmappedFieldsPolicy;
+  facets?: Record<string, FacetDefinition>;
+  cursor?: CursorOptions;
 }
 
+export interface CursorOptions {
+  /**
+   * `legacy` (default) joins the sort values with `searchAfterDelimiter`, `opaque` encodes the cursors
+   * as base64url JSON
+   */
+  format?: 'opaque' | 'legacy';
+  /**
+   * Signs the opaque cursors (HMAC-SHA256), so clients can't tamper with them
+   */
+  secret?: string;
+}
+
+export interface CursorPayload {
+  sort: any[];
+  pitId?: string;
+}
+
+export type FacetValue = string | number | boolean;
+
+export interface TermsFacetDefinition {
+  /**
+   * The field whose terms are the facet values
+   */
+  field: string;
+  /**
+   * Maximum number of values to return (default: 10)
+   */
+  size?: number;
+  filterRule?: undefined;
+}
+
+export interface FilterRuleFacetDefinition {
+  /**
+   * Filter rule applied with each value as its argument, instead of a terms filter on a field
+   */
+  filterRule: string;
+  /**
+   * The facet values, the arguments of the filter rule
+   */
+  values: FacetValue[];
+}
+
+export type FacetDefinition = TermsFacetDefinition | FilterRuleFacetDefinition;
+
+export interface FacetBucket {
+  value: FacetValue;
+  count: number;
+  selected: boolean;
+}
+
+export interface FacetResult {
+  /**
+   * The selected values, counted as if they were not selected
+   */
+  selected: FacetBucket[];
+  /**
+   * The values that can be added to the selection
+   */
+  available: FacetBucket[];
+}
+
+export type UnmappedFieldsPolicy = 'strip' | 'reject' | 'allow';
+
+export interface SanitizeResult<TDoc = any> {
+  document: Partial<TDoc>;
+  errors: FieldValidationError[];
+}
+
+export type HookStage = 'pre' | 'post';
+
+export type HookOperation = 'index' | 'create' | 'update' | 'delete' | 'search' | 'bulk';
+
+export interface HookContext<TPayload = any> {
+  operation: HookOperation;
+  /**
+   * The document (index, create, update, delete), the search request (search)
+   * or the bulk operation items (bulk). Pre hooks can change it or replace it.
+   */
+  payload: TPayload;
+  options: Record<string, any>;
+  /**
+   * The operation result, only available in post hooks
+   */
+  result?: any;
+  abort: (reason?: string) => never;
+}
+
+export type HookFunction = (context: HookContext) => void | Promise<void>;
+
+export interface HooksDefinition {
+  pre?: Partial<Record<HookOperation, HookFunction | HookFunction[]>>;
+  post?: Partial<Record<HookOperation, HookFunction | HookFunction[]>>;
+}
+
+export interface BulkOperationItem<TDoc = any> {
+  operation: string;
+  _id: string | number;
+  routing?: string;
+  document: Partial<TDoc>;
+}
+
+export interface ValidationOptions {
+  types?: boolean;
+  required?: string[];
+  validators?: Record<string, (value: any, payload: any) => string | boolean | void>;
+}
+
+export interface FieldValidationError {
+  field: string;
+  rule: 'type' | 'required' | 'custom' | 'unmapped';
+  message: string;
+  value?: any;
+}
+
+export interface ComponentTemplateOptions {
+  name: string;
+  mappings?: Record<string, any>;
+  settings?: Record<string, any>;
+}
+
+export interface RolloverOptions {
+  writeAlias?: string;
+  maxAge?: string;
+  maxDocs?: number;
+  maxSize?: string;
+  maxPrimaryShardSize?: string;
+}
+
+export type DocumentOperationResultType = 'created' | 'updated' | 'deleted' | 'noop' | 'not_found' | 'conflict';
+
 export interface DocumentOperationResult {
   success: boolean;
   error?: string;
@@ -21,7 +166,70 @@ export interface DocumentOperationResult {
   _id?: string;
   _index?: string;
   _version?: number;
-  result?: string;
+  _seq_no?: number;
+  _primary_term?: number;
+  /**
+   * The Elasticsearch result, empty when the operation failed before reaching Elasticsearch
+   */
+  result?: DocumentOperationResultType | '';
+  validationErrors?: FieldValidationError[];
+  aborted?: boolean;
+}
+
+/**
+ * The result of a write rejected with a version conflict (409)
+ */
+export interface ConflictOperationResult extends DocumentOperationResult {
+  success: false;
+  result: 'conflict';
+  error: string;
+}
+
+export interface MultiGetItem<TDoc = any> {
+  /**
+   * The document ID, `null` when the payload misses its primary key fields
+   */
+  _id: string | null;
+  found: boolean;
+  document?: TDoc;
+  error?: string;
+}
+
+export interface LoaderOptions {
+  /**
+   * Cache the loaded documents for the lifetime of the loader (default: true)
+   */
+  cache?: boolean;
+  /**
+   * Maximum number of IDs per `_mget` request (default: 1000)
+   */
+  maxBatchSize?: number;
+}
+
+export interface ConcurrencyControlOptions {
+  /**
+   * Only write if the document has this sequence number, use with `ifPrimaryTerm`
+   */
+  ifSeqNo?: number;
+  /**
+   * Only write if the document has this primary term, use with `ifSeqNo`
+   */
+  ifPrimaryTerm?: number;
+  /**
+   * Explicit version, for external versioning
+   */
+  version?: number;
+  versionType?: 'internal' | 'external' | 'external_gte';
+}
+
+export interface DocumentWithMetadata<TDoc = any> {
+  _id: string;
+  _index: string;
+  _version: number;
+  _seq_no: number;
+  _primary_term: number;
+  _routing?: string;
+  _source: TDoc;
 }
 
 export interface ByQueryOperationResult {
@@ -45,11 +253,76 @@ export interface ByQueryOperationResult {
   failures: any[];
 }
 
+export interface ReindexOperationResult {
+  success: boolean;
+  error?: string;
+  /**
+   * The previous index, the newest generation when the alias spanned several of them
+   */
+  oldIndex: string;
+  /**
+   * Every index the documents were copied from
+   */
+  oldIndices: string[];
+  newIndex: string;
+  took: number;
+  total: number;
+  created: number;
+  updated: number;
+  failures: any[];
+}
+
+export interface RolloverOperationResult {
+  rolledOver: boolean;
+  dryRun: boolean;
+  oldIndex: string;
+  newIndex: string;
+  conditions: Record<string, boolean>;
+}
+
+export interface IndexInfo {
+  index: string;
+  createdAt: Date;
+  docsCount: number;
+  sizeInBytes: number;
+  hasAlias: boolean;
+  isWriteIndex: boolean;
+}
+
+export interface PruneIndicesResult {
+  deleted: string[];
+  kept: string[];
+  dryRun: boolean;
+}
+
+export interface MappingChange {
+  field: string;
+  type: 'added' | 'removed' | 'changed';
+  current?: Record<string, any>;
+  desired?: Record<string, any>;
+  parameters?: string[];
+  requiresReindex: boolean;
+}
+
+export interface MappingDiffResult {
+  index: string;
+  inSync: boolean;
+  requiresReindex: boolean;
+  changes: MappingChange[];
+}
+
 export interface BulkOperationResult {
   success: boolean;
   total: number;
   errors?: any[];
   firstError?: any;
+  validationErrors?: BulkValidationError[];
+}
+
+export interface BulkValidationError {
+  _id: string | number;
+  operation: string;
+  errors: FieldValidationError[];
 }
 
 export interface SearchRequest {
@@ -85,10 +358,426 @@ export interface BulkOperation {
   };
 }
 
-export interface QueryBuilderOptions {
-  model: ElastickbirdModel;
+export interface QueryBuilderOptions<TDoc = any> {
+  model: ElastickbirdModel<TDoc>;
 }
 
+export interface SearchResult<TDoc = any> {
+  rows: TDoc[];
+  count: number;
+  aggregations?: Record<string, any>;
+  /**
+   * The cursor of the next page, only when the page is full and sorted. Pass it to `setCursor()`
+   */
+  cursor?: string;
+  /**
+   * The sort values of the last hit joined with `searchAfterDelimiter`, only with the legacy cursor format
+   */
+  search_after?: string;
+  /**
+   * The highlight fragments of each row by field, in the same order as the rows
+   * (only when the request asks for highlighting)
+   */
+  highlights?: Array<Record<string, string[]>>;
+  /**
+   * The facets requested through the query builder, by name
+   */
+  facets?: Record<string, FacetResult>;
+  /**
+   * The point in time ID to use in the next request, for searches on a point in time
+   */
+  pit_id?: string;
+  /**
+   * The query and aggregation timings by shard (only when the request is profiled)
+   */
+  profile?: SearchProfile;
+}
+
+export interface ExplanationDetail {
+  value: number;
+  description: string;
+  details: ExplanationDetail[];
+}
+
+export interface ExplainResult {
+  _id: string;
+  _index?: string;
+  /**
+   * Whether the document matches the query
+   */
+  matched: boolean;
+  /**
+   * How the score is computed, null when the document doesn't exist
+   */
+  explanation: ExplanationDetail | null;
+}
+
+export interface ProfileNode {
+  type: string;
+  description: string;
+  timeMs: number;
+  breakdown: Record<string, number>;
+  children: ProfileNode[];
+}
+
+export interface ShardProfile {
+  id: string;
+  /**
+   * Time spent in the queries and aggregations of the shard
+   */
+  timeMs: number;
+  rewriteTimeMs: number;
+  queries: ProfileNode[];
+  aggregations: ProfileNode[];
+}
+
+export interface SearchProfile {
+  shards: ShardProfile[];
+}
+
+export interface IterateOptions<TDoc = any> {
+  /**
+   * Number of documents fetched per request (default: 1000)
+   */
+  batchSize?: number;
+  /**
+   * How long the point in time is kept between requests (default: '1m')
+   */
+  keepAlive?: string;
+  /**
+   * The source fields to return
+   */
+  fields?: DocumentField<TDoc>[];
+}
+
+export interface HighlightOptions {
+  preTags?: string | string[];
+  postTags?: string | string[];
+  fragmentSize?: number;
+  numberOfFragments?: number;
+  /**
+   * Only highlight the fields that match the query (default: true)
+   */
+  requireFieldMatch?: boolean;
+}
+
+export type MultiMatchType =
+  'best_fields' | 'most_fields' | 'cross_fields' | 'phrase' | 'phrase_prefix' | 'bool_prefix';
+
+export interface MultiMatchOptions {
+  type?: MultiMatchType;
+  operator?: 'and' | 'or';
+  minimumShouldMatch?: string | number;
+  fuzziness?: string | number;
+  tieBreaker?: number;
+  analyzer?: string;
+  boost?: number;
+}
+
+export interface MatchPhraseOptions {
+  slop?: number;
+  analyzer?: string;
+  boost?: number;
+}
+
+export interface MatchPhrasePrefixOptions extends MatchPhraseOptions {
+  maxExpansions?: number;
+}
+
+export interface TermLevelOptions {
+  caseInsensitive?: boolean;
+  rewrite?: string;
+  boost?: number;
+}
+
+export interface RegexpOptions extends TermLevelOptions {
+  flags?: string;
+  maxDeterminizedStates?: number;
+}
+
+export interface FuzzyOptions {
+  fuzziness?: string | number;
+  prefixLength?: number;
+  maxExpansions?: number;
+  transpositions?: boolean;
+  rewrite?: string;
+  boost?: number;
+}
+
+export interface TermsSetOptions<TDoc = any> {
+  /**
+   * The numeric field with the number of terms that must match
+   */
+  minimumShouldMatchField?: DocumentField<TDoc>;
+  /**
+   * The script computing the number of terms that must match, e.g. `Math.min(params.num_terms, 2)`
+   */
+  minimumShouldMatchScript?: string | { source: string; params?: Record<string, any> };
+  boost?: number;
+}
+
+export interface KnnOptions<TDoc = any> {
+  /**
+   * The dense_vector field name
+   */
+  field: DocumentField<TDoc>;
+  queryVector: number[];
+  /**
+   * Number of nearest neighbors to return (default: 10)
+   */
+  k?: number;
+  /**
+   * Number of candidates considered on each shard (default: the greater of 100 and k)
+   */
+  numCandidates?: number;
+  /**
+   * Only consider the documents matching this filter, built with a query builder or applied as filter rules
+   */
+  filter?: ((query: ElastickbirdQuery<TDoc>) => void) | string | any[] | Record<string, any>;
+  /**
+   * Minimum similarity of the matching documents
+   */
+  similarity?: number;
+  /**
+   * The weight of the kNN score, added to the score of the query clauses in hybrid searches
+   */
+  boost?: number;
+}
+
+export type DecayFunction = 'gauss' | 'exp' | 'linear';
+
+export type ScoreMode = 'multiply' | 'sum' | 'avg' | 'first' | 'max' | 'min';
+
+export type BoostMode = 'multiply' | 'replace' | 'sum' | 'avg' | 'max' | 'min';
+
+export interface ScoreFunctionOptions<TDoc = any> {
+  /**
+   * Only apply the function to the documents matching this filter
+   */
+  filter?: (query: ElastickbirdQuery<TDoc>) => void;
+  weight?: number;
+}
+
+export type ScoreScript = string | { source: string; params?: Record<string, any> };
+
+export interface InnerHitsOptions<TDoc = any> {
+  /**
+   * The inner hits name in the results (default: the nested path)
+   */
+  name?: string;
+  size?: number;
+  from?: number;
+  sort?: Array<Partial<Record<DocumentField<TDoc>, 'asc' | 'desc'>>>;
+  /**
+   * The source fields to return
+   */
+  fields?: DocumentField<TDoc>[];
+}
+
+export interface NestedQueryOptions<TDoc = any> {
+  /**
+   * How the scores of the matching nested documents are combined (default: 'avg')
+   */
+  scoreMode?: 'avg' | 'max' | 'min' | 'sum' | 'none';
+  /**
+   * Return the matching nested documents under `_innerHits` in each row
+   */
+  innerHits?: boolean | InnerHitsOptions<TDoc>;
+  /**
+   * Don't fail on indices where the path isn't mapped
+   */
+  ignoreUnmapped?: boolean;
+}
+
+export interface AggregationBucket<TSub = any> {
+  key: string | number;
+  /**
+   * The formatted key, e.g. the date of date histogram buckets
+   */
+  keyAsString?: string;
+  count: number;
+  from?: number;
+  to?: number;
+  aggs: TSub;
+}
+
+export interface BucketAggregationResult<TSub = any> {
+  buckets: AggregationBucket<TSub>[];
+  /**
+   * The number of documents that are not in the returned terms buckets
+   */
+  otherCount?: number;
+}
+
+export interface SingleBucketAggregationResult<TSub = any> {
+  count: number;
+  aggs: TSub;
+}
+
+/**
+ * The normalized aggregations of a query builder search, only present if the query defines aggregations
+ */
+export type AggregationsResult<TAggs> = {} extends TAggs ? {} : { aggs: TAggs };
+
+export interface SearchHit<TDoc = any> {
+  _id: string;
+  _index: string;
+  _score: number | null;
+  _routing?: string;
+  _source: TDoc;
+  highlight?: Record<string, string[]>;
+  inner_hits?: Record<string, any>;
+  fields?: Record<string, any[]>;
+  sort?: any[];
+}
+
+export type SearchHitMetadata = Exclude<keyof SearchHit, '_source'>;
+
+/**
+ * A source row of the search results, with the requested hit metadata
+ */
+export type SearchRow<TDoc = any, TMetadata extends SearchHitMetadata = never> = TDoc & Pick<SearchHit<TDoc>, TMetadata> & {
+  /**
+   * The matching nested documents by inner hits name (only when a nested query asks for inner hits)
+   */
+  _innerHits?: Record<string, any[]>;
+};
+
+export interface SearchOptions<TDoc = any, TMetadata extends SearchHitMetadata = SearchHitMetadata> {
+  /**
+   * The source fields to return
+   */
+  fields?: DocumentField<TDoc>[];
+  /**
+   * `source` (default) returns the document source of each hit, `hit` returns the whole hit
+   * (`_id`, `_score`, `highlight`, `sort`...) with the source under `_source`
+   */
+  rowFormat?: 'source' | 'hit';
+  /**
+   * Hit metadata to merge into each source row, e.g. `['_id', '_score']`
+   */
+  metadata?: TMetadata[];
+  /**
+   * Sort values to merge into each source row, by row field and sort clause index, e.g. `{ distance: 0 }`
+   */
+  sortValues?: Record<string, number>;
+}
+
+type StringFieldType =
+  | 'keyword'
+  | 'constant_keyword'
+  | 'wildcard'
+  | 'text'
+  | 'match_only_text'
+  | 'search_as_you_type'
+  | 'ip'
+  | 'version'
+  | 'binary';
+
+type NumericFieldType =
+  | 'long'
+  | 'integer'
+  | 'short'
+  | 'byte'
+  | 'double'
+  | 'float'
+  | 'half_float'
+  | 'scaled_float'
+  | 'unsigned_long'
+  | 'token_count';
+
+export type GeoPoint = { lat: number; lon: number } | [number, number] | string;
+
+export type DistanceUnit = 'mi' | 'yd' | 'ft' | 'in' | 'km' | 'm' | 'cm' | 'mm' | 'nmi';
+
+/**
+ * Infers the document value type of a field mapping, including arrays (`f.array()`) and `null_value`
+ */
+export type InferFieldType<TField> =
+  | (TField extends { [ARRAY_FIELD]: true } ? InferFieldValue<TField>[] : InferFieldValue<TField>)
+  | (TField extends { null_value: any } ? null : never);
+
+type InferFieldValue<TField> =
+  TField extends { type: 'nested'; properties: infer P }
+    ? InferProperties<P>[]
+    : TField extends { properties: infer P }
+      ? InferProperties<P>
+      : TField extends { type: infer T }
+        ? T extends StringFieldType ? string
+        : T extends NumericFieldType ? number
+        : T extends 'boolean' ? boolean
+        : T extends 'date' | 'date_nanos' ? string | number | Date
+        : T extends 'geo_point' ? GeoPoint
+        : T extends 'dense_vector' ? number[]
+        : any
+        : any;
+
+/**
+ * Infers the document type of mapping properties, every field is optional like in Elasticsearch
+ */
+export type InferProperties<TProperties> = {
+  -readonly [K in keyof TProperties]?: InferFieldType<TProperties[K]>;
+};
+
+/**
+ * Infers the document type of a `mappings` literal
+ */
+export type InferDocument<TMappings> = TMappings extends { properties: infer P }
+  ? InferProperties<P>
+  : Record<string, any>;
+
+type PathDepth = [never, 0, 1, 2, 3, 4];
+
+type FieldPath<T, D extends number = 5> = [D] extends [never]
+  ? never
+  : {
+      [K in keyof T & string]: NonNullable<T[K]> extends infer V
+        ? V extends readonly (infer I)[]
+          ? LeafPath<K, I, D>
+          : LeafPath<K, V, D>
+        : never;
+    }[keyof T & string];
+
+// multi-fields (e.g. `name.keyword`) are only accepted on string fields
+type LeafPath<K extends string, V, D extends number> = V extends Date
+  ? K
+  : V extends object
+    ? K | `${K}.${FieldPath<V, PathDepth[D]>}`
+    : V extends string
+      ? K | `${K}.${string}`
+      : K;
+
+/**
+ * Field names of a document in dot notation, including the multi-fields of string fields (e.g. `name.keyword`).
+ * Any string is accepted for untyped documents.
+ */
+export type DocumentField<TDoc> = 0 extends 1 & TDoc
+  ? string
+  : FieldPath<TDoc>;
+
+type ElementOf<V> = V extends readonly (infer I)[] ? I : V;
+
+type PathValue<T, P extends string> = P extends keyof T
+  ? ElementOf<NonNullable<T[P]>>
+  : P extends `${infer K}.${infer Rest}`
+    ? K extends keyof T ? PathValue<ElementOf<NonNullable<T[K]>>, Rest> : never
+    : never;
+
+/**
+ * The document type of the nested documents under a path (e.g. the item of `items`).
+ * Any document is accepted for untyped documents.
+ */
+export type NestedDocument<TDoc, TPath extends string> = 0 extends 1 & TDoc
+  ? any
+  : [PathValue<TDoc, TPath>] extends [never]
+    ? any
+    : PathValue<TDoc, TPath>;
+
+/**
+ * Field names that can be used to sort a document search
+ */
+export type SortField<TDoc> = DocumentField<TDoc> | '_score' | '_doc' | '_shard_doc';
+
 export type OccurrenceType = 'must' | 'should' | 'filter' | 'mustNot';
 
 export interface ElasticsearchClientConfig {
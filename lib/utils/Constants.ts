@@ -5,4 +5,32 @@ export const DOC_OPERATION_TYPES = {
   DELETE: "delete"
 } as const;
 
-export type DocOperationType = typeof DOC_OPERATION_TYPES[keyof typeof DOC_OPERATION_TYPES]; 
\ No newline at end of file
+export type DocOperationType = typeof DOC_OPERATION_TYPES[keyof typeof DOC_OPERATION_TYPES]; 
+
+/**
+ * Mapping parameters that can be changed on existing fields through putMapping
+ * https://www.elastic.co/guide/en/elasticsearch/reference/current/mapping-params.html
+ */
+export const UPDATABLE_MAPPING_PARAMETERS = [
+  "dynamic",
+  "eager_global_ordinals",
+  "fielddata",
+  "fielddata_frequency_filter",
+  "ignore_above",
+  "ignore_malformed",
+  "meta",
+  "search_analyzer",
+  "search_quote_analyzer"
+] as const;
+
+/**
+ * Mapping parameters that Elasticsearch fills in with its defaults when they are not set, by field type
+ */
+export const SERVER_DEFAULT_MAPPING_PARAMETERS: Record<string, readonly string[]> = {
+  dense_vector: ["element_type", "index", "similarity", "index_options"]
+};
+
+/**
+ * Marks a field mapping built with `f.array()`, symbols are left out when the mapping is serialized
+ */
+export const ARRAY_FIELD: unique symbol = Symbol("elastickbird.arrayField");
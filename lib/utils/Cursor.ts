@@ -0,0 +1,63 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { CursorPayload } from '../types';
+import { InvalidCursorError } from '../model/errors';
+
+const CURSOR_VERSION = 1;
+
+/**
+ * Signs the encoded cursor body
+ * @param body - The base64url cursor body
+ * @param secret - The signing secret
+ * @returns The base64url HMAC-SHA256 signature
+ */
+function sign(body: string, secret: string): string {
+  return createHmac('sha256', secret).update(body).digest('base64url');
+}
+
+/**
+ * Encodes a pagination cursor as base64url JSON, signed when a secret is given.
+ * Sort values keep their JSON types (numbers, strings, booleans, null).
+ * @param payload - The sort values of the last hit and the optional point in time ID
+ * @param secret - The signing secret
+ * @returns The opaque cursor
+ */
+export function encodeCursor({ sort, pitId }: CursorPayload, secret?: string): string {
+  const data: Record<string, any> = { v: CURSOR_VERSION, s: sort };
+  if (pitId) data.p = pitId;
+
+  const body = Buffer.from(JSON.stringify(data)).toString('base64url');
+  return secret ? `${body}.${sign(body, secret)}` : body;
+}
+
+/**
+ * Decodes an opaque pagination cursor, verifying its signature when a secret is given
+ * @param cursor - The opaque cursor
+ * @param secret - The signing secret
+ * @returns The cursor payload
+ * @throws InvalidCursorError if the cursor is malformed or its signature doesn't match
+ */
+export function decodeCursor(cursor: string, secret?: string): CursorPayload {
+  const [body, signature] = String(cursor).split('.');
+
+  if (secret) {
+    const expected = Buffer.from(sign(body, secret));
+    const actual = Buffer.from(signature || '');
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+      throw new InvalidCursorError('Invalid cursor signature');
+    }
+  }
+
+  let data: any;
+  try {
+    data = JSON.parse(Buffer.from(body, 'base64url').toString());
+  } catch (e) {
+    throw new InvalidCursorError('Malformed cursor');
+  }
+  if (data?.v !== CURSOR_VERSION || !Array.isArray(data.s)) {
+    throw new InvalidCursorError('Malformed cursor');
+  }
+
+  const payload: CursorPayload = { sort: data.s };
+  if (data.p) payload.pitId = data.p;
+  return payload;
+}
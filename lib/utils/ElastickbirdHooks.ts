@@ -0,0 +1,59 @@
+import { HookContext, HookFunction, HookOperation, HookStage, HooksDefinition } from '../types';
+import { HookAbortError } from '../model/errors';
+
+export class ElastickbirdHooks {
+  private hooks: Record<HookStage, Partial<Record<HookOperation, HookFunction[]>>> = {
+    pre: {},
+    post: {}
+  };
+
+  constructor(definition: HooksDefinition = {}) {
+    (['pre', 'post'] as const).forEach(stage => {
+      Object.entries(definition[stage] || {}).forEach(([operation, hooks]) => {
+        [hooks || []].flat().forEach(hook => this.add(stage, operation as HookOperation, hook));
+      });
+    });
+  }
+
+  /**
+   * Registers a hook
+   * @param stage - Run the hook before (pre) or after (post) the operation
+   * @param operation - The operation type
+   * @param hook - The hook function
+   */
+  add(stage: HookStage, operation: HookOperation, hook: HookFunction): void {
+    const hooks = this.hooks[stage][operation] || [];
+    hooks.push(hook);
+    this.hooks[stage][operation] = hooks;
+  }
+
+  /**
+   * Creates the context shared by the pre and post hooks of an operation
+   * @param operation - The operation type
+   * @param payload - The document, search request or bulk items
+   * @param options - The operation options
+   * @returns The hook context
+   */
+  createContext(operation: HookOperation, payload: any, options: Record<string, any> = {}): HookContext {
+    return {
+      operation,
+      payload,
+      options,
+      abort: (reason = `${operation} operation aborted by hook`) => {
+        throw new HookAbortError(reason);
+      }
+    };
+  }
+
+  /**
+   * Runs the hooks of an operation sequentially, a pre hook aborts the operation by throwing
+   * (e.g. through `context.abort()`)
+   * @param stage - The hook stage
+   * @param context - The hook context
+   */
+  async run(stage: HookStage, context: HookContext): Promise<void> {
+    for (const hook of this.hooks[stage][context.operation] || []) {
+      await hook(context);
+    }
+  }
+}
@@ -0,0 +1,98 @@
+import { FieldValidationError, SanitizeResult, UnmappedFieldsPolicy } from '../types';
+
+export class ElastickbirdSanitizer {
+  private mappings: Record<string, any>;
+  private policy: UnmappedFieldsPolicy;
+
+  constructor(mappings: Record<string, any>, policy: UnmappedFieldsPolicy = 'strip') {
+    this.mappings = mappings || {};
+    this.policy = policy;
+  }
+
+  private isPlainObject(value: any): boolean {
+    return typeof value === 'object' &&
+      value !== null &&
+      !Array.isArray(value) &&
+      !(value instanceof Date);
+  }
+
+  private isStrict(dynamic: any): boolean {
+    return String(dynamic) === 'strict';
+  }
+
+  /**
+   * Resolves the mapping of a field, following dotted field names (e.g. `address.city`)
+   * through the object properties
+   */
+  private resolveMapping(properties: Record<string, any>, key: string): Record<string, any> | undefined {
+    if (properties[key]) return properties[key];
+
+    const separator = key.indexOf('.');
+    if (separator === -1) return undefined;
+
+    const parent = properties[key.slice(0, separator)];
+    if (!parent?.properties) return undefined;
+    return this.resolveMapping(parent.properties, key.slice(separator + 1));
+  }
+
+  private sanitizeObject(
+    payload: Record<string, any>,
+    mapping: Record<string, any>,
+    prefix: string,
+    dynamic: any,
+    errors: FieldValidationError[]
+  ): Record<string, any> {
+    const properties = mapping.properties || {};
+    // like in Elasticsearch, objects inherit the dynamic setting of their parent
+    const objectDynamic = mapping.dynamic ?? dynamic;
+    const policy = this.isStrict(objectDynamic) ? 'reject' : this.policy;
+
+    const document: Record<string, any> = {};
+    for (const [key, value] of Object.entries(payload)) {
+      const field = prefix + key;
+      const fieldMapping = this.resolveMapping(properties, key);
+
+      if (!fieldMapping) {
+        if (policy === 'allow') document[key] = value;
+        if (policy === 'reject') {
+          errors.push({ field, rule: 'unmapped', message: 'Field is not defined in the mappings', value });
+        }
+        continue;
+      }
+
+      document[key] = this.sanitizeValue(value, fieldMapping, field, objectDynamic, errors);
+    }
+    return document;
+  }
+
+  private sanitizeValue(
+    value: any,
+    mapping: Record<string, any>,
+    field: string,
+    dynamic: any,
+    errors: FieldValidationError[]
+  ): any {
+    if (Array.isArray(value)) {
+      return value.map((item, index) => this.sanitizeValue(item, mapping, `${field}[${index}]`, dynamic, errors));
+    }
+
+    const isObject = !!mapping.properties || ['object', 'nested'].includes(mapping.type);
+    if (!this.isPlainObject(value) || !isObject || mapping.enabled === false) return value;
+    // objects without properties are dynamic and passed through, unless they are strict
+    if (!mapping.properties && !this.isStrict(mapping.dynamic ?? dynamic)) return value;
+
+    return this.sanitizeObject(value, mapping, `${field}.`, dynamic, errors);
+  }
+
+  /**
+   * Applies the unmapped fields policy to a payload, recursing into object and nested properties.
+   * Objects with `dynamic: strict` in the mappings always reject unmapped fields.
+   * @param payload - The document payload
+   * @returns The sanitized document and the rejected fields
+   */
+  sanitize<TDoc = any>(payload: Partial<TDoc>): SanitizeResult<TDoc> {
+    const errors: FieldValidationError[] = [];
+    const document = this.sanitizeObject(payload || {}, this.mappings, '', undefined, errors);
+    return { document: document as Partial<TDoc>, errors };
+  }
+}
@@ -0,0 +1,148 @@
+import { FieldValidationError, ValidationOptions } from '../types';
+
+const STRING_TYPES = [
+  'keyword', 'constant_keyword', 'wildcard', 'text', 'match_only_text', 'search_as_you_type', 'version'
+];
+const NUMERIC_TYPES = [
+  'long', 'integer', 'short', 'byte', 'double', 'float', 'half_float', 'scaled_float', 'unsigned_long'
+];
+const DATE_TYPES = ['date', 'date_nanos'];
+
+export class ElastickbirdValidator {
+  private properties: Record<string, any>;
+  private options: ValidationOptions;
+
+  constructor(mappings: Record<string, any>, options: ValidationOptions = {}) {
+    this.properties = mappings?.properties || {};
+    this.options = options;
+  }
+
+  private getNestedValue(obj: any, path: string): any {
+    return path.split('.').reduce((current, key) => current?.[key], obj);
+  }
+
+  private isPlainObject(value: any): boolean {
+    return typeof value === 'object' &&
+      value !== null &&
+      !Array.isArray(value) &&
+      !(value instanceof Date);
+  }
+
+  private isNumeric(value: any, mapping: Record<string, any>): boolean {
+    if (typeof value === 'number') return Number.isFinite(value);
+    // Elasticsearch coerces numeric strings unless coerce is disabled
+    return mapping.coerce !== false &&
+      typeof value === 'string' &&
+      value.trim() !== '' &&
+      Number.isFinite(Number(value));
+  }
+
+  private isDate(value: any, mapping: Record<string, any>): boolean {
+    if (value instanceof Date) return !isNaN(value.getTime());
+    if (typeof value === 'number') return Number.isFinite(value);
+    // custom formats can't be checked without parsing them the Elasticsearch way
+    return typeof value === 'string' && (!!mapping.format || !isNaN(Date.parse(value)));
+  }
+
+  private isGeoPoint(value: any): boolean {
+    if (typeof value === 'string') return true;
+    if (Array.isArray(value)) {
+      return value.length >= 2 && value.every(coordinate => typeof coordinate === 'number');
+    }
+    return this.isPlainObject(value) && typeof value.lat === 'number' && typeof value.lon === 'number';
+  }
+
+  private isDenseVector(value: any, mapping: Record<string, any>): boolean {
+    return Array.isArray(value) &&
+      value.every(dimension => typeof dimension === 'number' && Number.isFinite(dimension)) &&
+      (!mapping.dims || value.length === mapping.dims);
+  }
+
+  /**
+   * Checks a single value against the field mapping type
+   * @returns `true` if Elasticsearch would accept the value
+   */
+  private isValidType(value: any, mapping: Record<string, any>): boolean {
+    const type = mapping.type || (mapping.properties ? 'object' : undefined);
+    if (STRING_TYPES.includes(type)) return ['string', 'number', 'boolean'].includes(typeof value);
+    if (NUMERIC_TYPES.includes(type)) return this.isNumeric(value, mapping);
+    if (DATE_TYPES.includes(type)) return this.isDate(value, mapping);
+    if (type === 'boolean') return typeof value === 'boolean' || value === 'true' || value === 'false';
+    if (type === 'ip') return typeof value === 'string';
+    if (type === 'geo_point') return this.isGeoPoint(value);
+    if (type === 'dense_vector') return this.isDenseVector(value, mapping);
+    if (type === 'object' || type === 'nested') return this.isPlainObject(value);
+    return true;
+  }
+
+  private validateTypes(
+    payload: Record<string, any>,
+    properties: Record<string, any>,
+    prefix: string
+  ): FieldValidationError[] {
+    const errors: FieldValidationError[] = [];
+    for (const [key, value] of Object.entries(payload)) {
+      const mapping = properties[key];
+      if (!mapping || value === null || value === undefined) continue;
+
+      const field = prefix + key;
+      // geo points can be expressed as [lon, lat] arrays, and vectors are arrays
+      const values = Array.isArray(value) && !['geo_point', 'dense_vector'].includes(mapping.type) ? value : [value];
+      values.forEach((item, position) => {
+        const itemField = values === value ? `${field}[${position}]` : field;
+        if (item === null) return;
+        if (!this.isValidType(item, mapping)) {
+          errors.push({
+            field: itemField,
+            rule: 'type',
+            message: `Expected a value of type ${mapping.type || 'object'}`,
+            value: item
+          });
+        } else if (mapping.properties && this.isPlainObject(item)) {
+          errors.push(...this.validateTypes(item, mapping.properties, `${itemField}.`));
+        }
+      });
+    }
+    return errors;
+  }
+
+  /**
+   * Validates a document payload against the mapped types, required fields and custom validators.
+   * @param payload - The document payload
+   * @param options - Validation options
+   * @param options.partial - Partial documents (updates) only validate the fields they hold
+   * @returns The field-level errors, empty if the payload is valid
+   */
+  validate(payload: any, { partial = false }: { partial?: boolean } = {}): FieldValidationError[] {
+    const { types = true, required = [], validators = {} } = this.options;
+    const errors: FieldValidationError[] = [];
+
+    for (const field of required) {
+      const value = this.getNestedValue(payload, field);
+      const isMissing = value === undefined || value === null || value === '';
+      if (isMissing && (!partial || value !== undefined)) {
+        errors.push({ field, rule: 'required', message: 'Field is required' });
+      }
+    }
+
+    if (types && payload) {
+      errors.push(...this.validateTypes(payload, this.properties, ''));
+    }
+
+    for (const [field, validator] of Object.entries(validators)) {
+      const value = this.getNestedValue(payload, field);
+      if (partial && value === undefined) continue;
+      const result = validator(value, payload);
+      if (result === false || typeof result === 'string') {
+        errors.push({
+          field,
+          rule: 'custom',
+          message: typeof result === 'string' ? result : 'Invalid value',
+          value
+        });
+      }
+    }
+
+    return errors;
+  }
+}
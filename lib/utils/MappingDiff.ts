@@ -0,0 +1,140 @@
+import { MappingChange } from '../types';
+import { UPDATABLE_MAPPING_PARAMETERS, SERVER_DEFAULT_MAPPING_PARAMETERS } from './Constants';
+
+/**
+ * Resolves the field type, objects don't always declare it explicitly
+ * @param field - The field mapping
+ * @returns The field type
+ */
+function getFieldType(field: Record<string, any>): string {
+  return field.type || (field.properties ? 'object' : '');
+}
+
+/**
+ * Normalizes a mapping parameter value the way Elasticsearch returns it
+ * @param parameter - The parameter name
+ * @param value - The parameter value
+ * @returns The normalized value
+ */
+function normalizeParameter(parameter: string, value: any): any {
+  if (parameter === 'copy_to' && value !== undefined && !Array.isArray(value)) return [value];
+  return value;
+}
+
+/**
+ * Deep compares two mapping values
+ * @param a - The first value
+ * @param b - The second value
+ * @returns `true` if both values are equivalent
+ */
+function isEqual(a: any, b: any): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    // Elasticsearch may return scalar parameters as strings
+    return a !== undefined && b !== undefined && String(a) === String(b);
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return [...keys].every(key => isEqual(a[key], b[key]));
+}
+
+/**
+ * Drops the parts of a server defaulted parameter that the schema leaves unset
+ * @param current - The live parameter value
+ * @param desired - The schema parameter value
+ * @returns The live value restricted to the keys of the schema value
+ */
+function pickDeclared(current: any, desired: any): any {
+  if (typeof current !== 'object' || typeof desired !== 'object' || current === null || desired === null) return current;
+  if (Array.isArray(current) || Array.isArray(desired)) return current;
+  return Object.fromEntries(Object.keys(desired).map(key => [key, pickDeclared(current[key], desired[key])]));
+}
+
+/**
+ * Compares a field mapping parameters, ignoring sub fields and properties
+ * and the server defaults of the parameters left unset in the schema
+ * @param current - The live field mapping
+ * @param desired - The schema field mapping
+ * @returns The names of the parameters that differ
+ */
+function diffParameters(current: Record<string, any>, desired: Record<string, any>): string[] {
+  const parameters = new Set([...Object.keys(current), ...Object.keys(desired)]);
+  ['type', 'properties', 'fields'].forEach(parameter => parameters.delete(parameter));
+  const serverDefaults = SERVER_DEFAULT_MAPPING_PARAMETERS[getFieldType(desired)] || [];
+
+  return [...parameters].filter(parameter => {
+    if (!serverDefaults.includes(parameter)) {
+      return !isEqual(
+        normalizeParameter(parameter, current[parameter]),
+        normalizeParameter(parameter, desired[parameter])
+      );
+    }
+    if (desired[parameter] === undefined) return false;
+    return !isEqual(pickDeclared(current[parameter], desired[parameter]), desired[parameter]);
+  });
+}
+
+/**
+ * Compares two sets of mapping properties recursively, including object/nested properties and multi-fields
+ * @param current - The live mapping properties
+ * @param desired - The schema mapping properties
+ * @param prefix - The path of the parent field
+ * @returns The list of changes
+ */
+export function diffMappingProperties(
+  current: Record<string, any> = {},
+  desired: Record<string, any> = {},
+  prefix = ''
+): MappingChange[] {
+  const changes: MappingChange[] = [];
+  const fields = new Set([...Object.keys(current), ...Object.keys(desired)]);
+
+  for (const name of fields) {
+    const field = prefix + name;
+    const currentField = current[name];
+    const desiredField = desired[name];
+
+    if (!currentField) {
+      changes.push({ field, type: 'added', desired: desiredField, requiresReindex: false });
+      continue;
+    }
+    if (!desiredField) {
+      // putMapping can't remove fields from an existing index
+      changes.push({ field, type: 'removed', current: currentField, requiresReindex: true });
+      continue;
+    }
+
+    if (getFieldType(currentField) !== getFieldType(desiredField)) {
+      changes.push({
+        field,
+        type: 'changed',
+        current: currentField,
+        desired: desiredField,
+        parameters: ['type'],
+        requiresReindex: true
+      });
+      continue;
+    }
+
+    const parameters = diffParameters(currentField, desiredField);
+    if (parameters.length) {
+      changes.push({
+        field,
+        type: 'changed',
+        current: currentField,
+        desired: desiredField,
+        parameters,
+        requiresReindex: parameters.some(
+          parameter => !(UPDATABLE_MAPPING_PARAMETERS as readonly string[]).includes(parameter)
+        )
+      });
+    }
+
+    changes.push(
+      ...diffMappingProperties(currentField.properties, desiredField.properties, `${field}.`),
+      ...diffMappingProperties(currentField.fields, desiredField.fields, `${field}.`)
+    );
+  }
+
+  return changes;
+}
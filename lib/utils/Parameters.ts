@@ -0,0 +1,13 @@
+/**
+ * Converts builder options to Elasticsearch parameters (camelCase to snake_case), skipping undefined values
+ * @param options - The builder options
+ * @returns The Elasticsearch parameters
+ */
+export function toSnakeCaseParameters(options: Record<string, any> = {}): Record<string, any> {
+  const parameters: Record<string, any> = {};
+  for (const [key, value] of Object.entries(options)) {
+    if (value === undefined) continue;
+    parameters[key.replace(/[A-Z]/g, char => `_${char.toLowerCase()}`)] = value;
+  }
+  return parameters;
+}
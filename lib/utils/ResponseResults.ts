@@ -1,4 +1,17 @@
-import { DocumentOperationResult, ByQueryOperationResult, BulkOperationResult } from '../types';
+import {
+  DocumentOperationResult,
+  DocumentOperationResultType,
+  ConflictOperationResult,
+  ByQueryOperationResult,
+  BulkOperationResult,
+  ReindexOperationResult,
+  DocumentWithMetadata,
+  SearchHit,
+  ExplainResult,
+  ExplanationDetail,
+  ProfileNode,
+  SearchProfile
+} from '../types';
 import { DOC_OPERATION_TYPES } from './Constants';
 
 /**
@@ -7,19 +20,151 @@ import { DOC_OPERATION_TYPES } from './Constants';
  * @returns DocumentOperationResult
  */
 export function createDocumentOperationResult(response: any = {}): DocumentOperationResult & {
-  result: string;
+  result: DocumentOperationResultType | '';
   deleted: number;
   updated: number;
   created: number;
 } {
-  return {
+  const result = {
     success: response?.result !== "conflict",
-    result: response?.result || "",
+    result: (response?.result || "") as DocumentOperationResultType | '',
     deleted: response?.result === "deleted" ? 1 : 0,
     updated: response?.result === "updated" ? 1 : 0,
     created: response?.result === "created" ? 1 : 0,
     total: response?.result === "not_found" || response?.result === "conflict" ? 0 : 1
   };
+  return { ...result, ...pickDocumentMetadata(response) };
+}
+
+/**
+ * Creates the result of a document operation rejected with a version conflict (409)
+ * @param error - The Elasticsearch response error
+ * @returns ConflictOperationResult
+ */
+export function createConflictOperationResult(error: any): ConflictOperationResult {
+  const body = error?.meta?.body;
+  return {
+    ...createDocumentOperationResult({ result: "conflict" }),
+    success: false,
+    result: "conflict",
+    error: body?.error?.reason || error?.message || "Version conflict"
+  };
+}
+
+/**
+ * Creates a document with its metadata from an Elasticsearch get response
+ * @param response - The Elasticsearch get response
+ * @returns DocumentWithMetadata
+ */
+export function createDocumentWithMetadata<TDoc = any>(response: any): DocumentWithMetadata<TDoc> {
+  const document: DocumentWithMetadata<TDoc> = {
+    _id: response._id,
+    _index: response._index,
+    _version: response._version,
+    _seq_no: response._seq_no,
+    _primary_term: response._primary_term,
+    _source: response._source
+  };
+  if (response._routing) document._routing = response._routing;
+  return document;
+}
+
+/**
+ * Checks if a value is a document operation result, e.g. to tell the error returned by `getDocument`
+ * for a payload without ID from the document
+ * @param value - The value to check
+ * @returns `true` if the value is a DocumentOperationResult
+ */
+export function isDocumentOperationResult(value: unknown): value is DocumentOperationResult {
+  if (typeof value !== 'object' || value === null || '_source' in value) return false;
+  const result = value as Record<string, unknown>;
+  return typeof result.success === 'boolean' && typeof result.total === 'number';
+}
+
+/**
+ * Creates a search hit object from an Elasticsearch search response hit
+ * @param hit - The Elasticsearch hit
+ * @returns SearchHit
+ */
+export function createSearchHit<TDoc = any>(hit: any): SearchHit<TDoc> {
+  const searchHit: SearchHit<TDoc> = {
+    _id: hit._id,
+    _index: hit._index,
+    _score: hit._score ?? null,
+    _source: hit._source
+  };
+  for (const field of ['_routing', 'highlight', 'inner_hits', 'fields', 'sort'] as const) {
+    if (hit[field] !== undefined) searchHit[field] = hit[field];
+  }
+  return searchHit;
+}
+
+/**
+ * Creates an explain result object
+ * @param response - The Elasticsearch explain response
+ * @returns ExplainResult
+ */
+export function createExplainResult(response: any = {}): ExplainResult {
+  return {
+    _id: response._id,
+    _index: response._index,
+    matched: Boolean(response.matched),
+    explanation: response.explanation ? createExplanationDetail(response.explanation) : null
+  };
+}
+
+function createExplanationDetail(explanation: any): ExplanationDetail {
+  return {
+    value: explanation.value,
+    description: explanation.description,
+    details: (explanation.details || []).map(createExplanationDetail)
+  };
+}
+
+/**
+ * Creates a search profile object, with the timings in milliseconds
+ * @param profile - The Elasticsearch search response profile
+ * @returns SearchProfile
+ */
+export function createSearchProfile(profile: any = {}): SearchProfile {
+  return {
+    shards: (profile.shards || []).map((shard: any) => {
+      const searches = shard.searches || [];
+      const queries: ProfileNode[] = searches.flatMap((search: any) => (search.query || []).map(createProfileNode));
+      const aggregations: ProfileNode[] = (shard.aggregations || []).map(createProfileNode);
+      const rewriteTime = searches.reduce((total: number, search: any) => total + (search.rewrite_time || 0), 0);
+
+      return {
+        id: shard.id,
+        timeMs: [...queries, ...aggregations].reduce((total, node) => total + node.timeMs, 0),
+        rewriteTimeMs: toMilliseconds(rewriteTime),
+        queries,
+        aggregations
+      };
+    })
+  };
+}
+
+function createProfileNode(node: any): ProfileNode {
+  return {
+    type: node.type,
+    description: node.description,
+    timeMs: toMilliseconds(node.time_in_nanos),
+    breakdown: node.breakdown || {},
+    children: (node.children || []).map(createProfileNode)
+  };
+}
+
+function toMilliseconds(nanos: number = 0): number {
+  return nanos / 1e6;
+}
+
+function pickDocumentMetadata(response: any = {}): Partial<DocumentOperationResult> {
+  const metadata: Partial<DocumentOperationResult> = {};
+  for (const field of ['_id', '_index', '_version', '_seq_no', '_primary_term'] as const) {
+    if (response?.[field] !== undefined) metadata[field] = response[field];
+  }
+  return metadata;
 }
 
 /**
@@ -133,6 +278,33 @@ export function createByQueryOperationResult(
   };
 }
 
+/**
+ * Creates a reindex operation result object
+ * @param response - The Elasticsearch reindex response
+ * @param indices - The source and destination indices
+ * @param error - Error message if the operation failed
+ * @returns ReindexOperationResult
+ */
+export function createReindexOperationResult(
+  response: any = {},
+  { oldIndex, oldIndices, newIndex }: { oldIndex: string; oldIndices: string[]; newIndex: string },
+  error?: string
+): ReindexOperationResult {
+  const result: ReindexOperationResult = {
+    success: !error,
+    oldIndex,
+    oldIndices,
+    newIndex,
+    took: response?.took || 0,
+    total: response?.total || 0,
+    created: response?.created || 0,
+    updated: response?.updated || 0,
+    failures: response?.failures || []
+  };
+  if (error) result.error = error;
+  return result;
+}
+
 // Export the result classes for backwards compatibility
 export { createDocumentOperationResult as DocumentOperationResult };
 export { createByQueryOperationResult as ByQueryOperationResult };